@@ -0,0 +1,17 @@
+import type { NextRequest } from "next/server";
+import { DEFAULT_WALL_ID } from "@/lib/walls";
+import { deleteGraffiti, patchGraffiti } from "@/app/api/web-spraying";
+
+type RouteContext = {
+  params: Promise<{ itemId: string }>;
+};
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { itemId } = await params;
+  return patchGraffiti(request, DEFAULT_WALL_ID, itemId);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { itemId } = await params;
+  return deleteGraffiti(request, DEFAULT_WALL_ID, itemId);
+}
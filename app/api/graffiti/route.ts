@@ -1,7 +1,20 @@
 import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
 import { getGraffiti } from "@/lib/graffiti";
+import { DEFAULT_WALL_ID } from "@/lib/walls";
+import { readUntilParam } from "@/app/api/until-param";
+import { postGraffiti } from "@/app/api/web-spraying";
 
-export async function GET() {
-  const items = await getGraffiti();
+export async function GET(request: Request) {
+  const range = readUntilParam(request);
+  if (!range) {
+    return NextResponse.json({ error: "until must be an ISO timestamp" }, { status: 400 });
+  }
+
+  const items = await getGraffiti(DEFAULT_WALL_ID, range);
   return NextResponse.json(items);
 }
+
+export function POST(request: NextRequest) {
+  return postGraffiti(request, DEFAULT_WALL_ID);
+}
@@ -0,0 +1,6 @@
+import type { NextRequest } from "next/server";
+import { getMe } from "@/app/api/web-spraying";
+
+export function GET(request: NextRequest) {
+  return getMe(request);
+}
@@ -0,0 +1,13 @@
+/**
+ * Reads the optional `?until=` history cutoff as a normalized ISO timestamp.
+ * Returns null when the parameter is present but not a valid date.
+ */
+export function readUntilParam(request: Request): { until?: string } | null {
+  const raw = new URL(request.url).searchParams.get("until");
+  if (!raw) {
+    return {};
+  }
+
+  const parsed = Date.parse(raw);
+  return Number.isNaN(parsed) ? null : { until: new Date(parsed).toISOString() };
+}
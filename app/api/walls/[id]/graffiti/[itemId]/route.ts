@@ -0,0 +1,16 @@
+import type { NextRequest } from "next/server";
+import { deleteGraffiti, patchGraffiti } from "@/app/api/web-spraying";
+
+type RouteContext = {
+  params: Promise<{ id: string; itemId: string }>;
+};
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id, itemId } = await params;
+  return patchGraffiti(request, id, itemId);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id, itemId } = await params;
+  return deleteGraffiti(request, id, itemId);
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getGraffiti } from "@/lib/graffiti";
+import { getWall } from "@/lib/walls";
+import { readUntilParam } from "@/app/api/until-param";
+import { postGraffiti } from "@/app/api/web-spraying";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const wall = await getWall(id);
+  if (!wall) {
+    return NextResponse.json({ error: `Unknown wall "${id}"` }, { status: 404 });
+  }
+
+  const range = readUntilParam(request);
+  if (!range) {
+    return NextResponse.json({ error: "until must be an ISO timestamp" }, { status: 400 });
+  }
+
+  const items = await getGraffiti(wall.id, range);
+  return NextResponse.json(items);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return postGraffiti(request, id);
+}
@@ -0,0 +1,293 @@
+import { createHash, randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { ZodError, z } from "zod";
+import { ApiKeyFileError, resolveClientIdentity } from "@/lib/api-keys";
+import type { ClientIdentity } from "@/lib/api-keys";
+import { CLIENT_ADDRESS_HEADER } from "@/lib/client-address";
+import { ForbiddenError, ImageSourceError, NotFoundError } from "@/lib/errors";
+import { eraseGraffiti, findGraffitiItem } from "@/lib/graffiti";
+import { graffitiPatchSchema, sprayImageInput, sprayTextSchema } from "@/lib/graffiti-schemas";
+import { QuotaExceededError, consumeSprayRequest, createSessionQuota } from "@/lib/quotas";
+import type { SessionQuota } from "@/lib/quotas";
+import { editGraffiti, sprayImage, sprayText } from "@/lib/spraying";
+import { getWall } from "@/lib/walls";
+
+// REST endpoints behind the wall page's spray and edit tools. They accept the
+// same arguments as the spray_text, spray_image and update_graffiti MCP tools
+// and run the same flows, so quotas and moderation apply to both alike.
+
+const AUTHOR_COOKIE = "wall_author";
+const AUTHOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+const MAX_SESSIONS = 10_000;
+
+// Session rate limits per caller, kept across requests; the oldest are dropped past MAX_SESSIONS.
+const sessions = new Map<string, SessionQuota>();
+
+type WebIdentity = {
+  identity: ClientIdentity;
+  /** True when the caller is a browser identified by its author cookie rather than an API key. */
+  browser: boolean;
+  /** Set when the visitor had no author cookie yet and one must be issued. */
+  newToken: string | null;
+};
+
+class RequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+  }
+}
+
+function webSprayingEnabled(): boolean {
+  return process.env.WEB_SPRAYING?.trim().toLowerCase() !== "off";
+}
+
+/** Author name for a browser; only a digest of the cookie is ever stored on items. */
+function webAuthor(token: string): string {
+  return `web:${createHash("sha256").update(token).digest("hex").slice(0, 12)}`;
+}
+
+/**
+ * Where a browser is calling from, as worked out by the custom server from the
+ * socket and any trusted proxies. Only server.ts sets the header, so under
+ * `next dev` it is missing (one shared "unknown" budget) or whatever the
+ * client sent.
+ */
+function clientAddress(request: NextRequest): string {
+  return request.headers.get(CLIENT_ADDRESS_HEADER) || "unknown";
+}
+
+/**
+ * Works out who is calling: an API key in the Authorization header wins,
+ * otherwise the browser is identified by its author cookie, which is issued on
+ * first contact. Browsers may only spray, and their budgets are kept per
+ * address, since a fresh cookie is only a request away.
+ */
+async function resolveWebIdentity(request: NextRequest): Promise<WebIdentity> {
+  const authorization = request.headers.get("authorization");
+  if (authorization) {
+    const identity = await resolveClientIdentity(authorization);
+    if (!identity) {
+      throw new RequestError("Missing or invalid API key", 401);
+    }
+
+    return { identity, browser: false, newToken: null };
+  }
+
+  const quotaKey = `web-ip:${clientAddress(request)}`;
+  const token = request.cookies.get(AUTHOR_COOKIE)?.value;
+  if (token && /^[0-9a-f]{48}$/.test(token)) {
+    return { identity: { client: webAuthor(token), scope: "spray", quotaKey }, browser: true, newToken: null };
+  }
+
+  const newToken = randomBytes(24).toString("hex");
+  return { identity: { client: webAuthor(newToken), scope: "spray", quotaKey }, browser: true, newToken };
+}
+
+function respond(request: NextRequest, web: WebIdentity, body: unknown, status = 200): NextResponse {
+  const response = NextResponse.json(body, { status });
+  if (web.newToken) {
+    response.cookies.set(AUTHOR_COOKIE, web.newToken, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: AUTHOR_COOKIE_MAX_AGE
+    });
+  }
+
+  return response;
+}
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ZodError) {
+    const issues = error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`);
+    return NextResponse.json({ error: issues.join("; ") }, { status: 400 });
+  }
+
+  if (error instanceof QuotaExceededError) {
+    return NextResponse.json(
+      { error: error.message },
+      {
+        status: 429,
+        headers: error.retryAfterSeconds === null ? undefined : { "Retry-After": String(error.retryAfterSeconds) }
+      }
+    );
+  }
+
+  if (error instanceof ApiKeyFileError) {
+    return NextResponse.json({ error: error.message }, { status: 503 });
+  }
+
+  if (error instanceof RequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof NotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (error instanceof ForbiddenError) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+
+  if (error instanceof ImageSourceError) {
+    return NextResponse.json({ error: error.message }, { status: 422 });
+  }
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+async function requireKnownWall(wallId: string): Promise<void> {
+  if (!(await getWall(wallId))) {
+    throw new RequestError(`Unknown wall "${wallId}"`, 404);
+  }
+}
+
+function requireWebSpraying(web: WebIdentity): void {
+  if (web.browser && !webSprayingEnabled()) {
+    throw new RequestError("Spraying from the web page is turned off", 403);
+  }
+}
+
+/** Writes need an author cookie from an earlier visit, so ownership and rate limits have something to hold on to. */
+function requireAuthorCookie(web: WebIdentity): void {
+  if (web.browser && web.newToken) {
+    throw new RequestError("No author cookie; load the wall page (or GET /api/me) before spraying", 401);
+  }
+}
+
+function sessionQuota(identity: ClientIdentity): SessionQuota {
+  const key = identity.quotaKey ?? identity.client;
+  let session = sessions.get(key);
+  if (!session) {
+    if (sessions.size >= MAX_SESSIONS) {
+      sessions.delete(sessions.keys().next().value as string);
+    }
+
+    session = createSessionQuota();
+    sessions.set(key, session);
+  }
+
+  return session;
+}
+
+/** Admins may change any item; everyone else only the items they sprayed. */
+async function requireOwnItem(web: WebIdentity, wallId: string, id: string): Promise<void> {
+  const item = await findGraffitiItem(id, wallId);
+  if (!item) {
+    throw new RequestError(`No graffiti ${id} on wall "${wallId}"`, 404);
+  }
+
+  if (web.identity.scope !== "admin" && item.author !== web.identity.client) {
+    throw new RequestError(`Graffiti ${id} belongs to someone else`, 403);
+  }
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new RequestError("Request body must be JSON", 400);
+  }
+}
+
+/** GET /api/me: who the wall page is spraying as, issuing the author cookie if needed. */
+export async function getMe(request: NextRequest): Promise<NextResponse> {
+  try {
+    const web = await resolveWebIdentity(request);
+    return respond(request, web, {
+      author: web.identity.client,
+      admin: web.identity.scope === "admin",
+      spraying: !web.browser || webSprayingEnabled()
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** POST: sprays a text tag ({ type: "text", ...spray_text arguments }) or a sticker ({ type: "image", ... }). */
+export async function postGraffiti(request: NextRequest, wallId: string): Promise<NextResponse> {
+  try {
+    const web = await resolveWebIdentity(request);
+    requireWebSpraying(web);
+    requireAuthorCookie(web);
+    await requireKnownWall(wallId);
+
+    const body = await readJson(request);
+    const session = sessionQuota(web.identity);
+    const kind = z.object({ type: z.enum(["text", "image"]) }).parse(body).type;
+    const result =
+      kind === "text"
+        ? await sprayText(web.identity, session, { ...z.object(sprayTextSchema).parse(body), wall_id: wallId })
+        : await sprayImage(web.identity, session, { ...sprayImageInput.parse(body), wall_id: wallId });
+
+    if (result.outcome === "rejected") {
+      return respond(request, web, { error: `Rejected: ${result.moderation.reasons.join("; ")}` }, 422);
+    }
+
+    return respond(
+      request,
+      web,
+      {
+        item: result.item,
+        decision: result.moderation.decision,
+        reasons: result.moderation.reasons,
+        normalized: result.normalized,
+        placement: result.placement ?? null
+      },
+      201
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** PATCH: applies an update_graffiti patch to one of the caller's own items. */
+export async function patchGraffiti(request: NextRequest, wallId: string, id: string): Promise<NextResponse> {
+  try {
+    const web = await resolveWebIdentity(request);
+    requireWebSpraying(web);
+    requireAuthorCookie(web);
+    await requireKnownWall(wallId);
+    await requireOwnItem(web, wallId, id);
+
+    const patch = graffitiPatchSchema.parse(await readJson(request));
+    const admin = web.identity.scope === "admin";
+    if (!admin) {
+      // Edits are cheap to send while dragging, so they count against the spray rate limit.
+      await consumeSprayRequest(web.identity, sessionQuota(web.identity));
+    }
+
+    // Growing an item costs paint like spraying the extra area would.
+    const result = await editGraffiti(wallId, id, patch, admin ? undefined : web.identity);
+    if (result.outcome === "rejected") {
+      return respond(request, web, { error: `Rejected: ${result.moderation.reasons.join("; ")}` }, 422);
+    }
+
+    return respond(request, web, { item: result.item, normalized: result.normalized });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** DELETE: erases one of the caller's own items. */
+export async function deleteGraffiti(request: NextRequest, wallId: string, id: string): Promise<NextResponse> {
+  try {
+    const web = await resolveWebIdentity(request);
+    requireWebSpraying(web);
+    requireAuthorCookie(web);
+    await requireKnownWall(wallId);
+    await requireOwnItem(web, wallId, id);
+
+    await eraseGraffiti(id, wallId);
+    return respond(request, web, { erased: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,6 +1,7 @@
 import "./globals.css";
 import type { Metadata } from "next";
 import type { ReactNode } from "react";
+import { fontFaceCss } from "@/lib/fonts";
 
 export const metadata: Metadata = {
   title: "Lefty's Wall",
@@ -14,6 +15,9 @@ type LayoutProps = {
 export default function RootLayout({ children }: LayoutProps) {
   return (
     <html lang="en">
+      <head>
+        <style dangerouslySetInnerHTML={{ __html: fontFaceCss() }} />
+      </head>
       <body>{children}</body>
     </html>
   );
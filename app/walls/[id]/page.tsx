@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import { GraffitiWall } from "@/components/graffiti-wall";
+import { getWall } from "@/lib/walls";
+
+type WallPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function WallPage({ params }: WallPageProps) {
+  const { id } = await params;
+  const wall = await getWall(id);
+  if (!wall) {
+    notFound();
+  }
+
+  return (
+    <main>
+      <GraffitiWall wallId={wall.id} title={wall.name} background={wall.background} />
+    </main>
+  );
+}
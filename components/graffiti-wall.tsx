@@ -1,16 +1,298 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import type { GraffitiItem } from "@/lib/graffiti";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { DEFAULT_SPRAY_TOOL, SprayToolbar } from "@/components/spray-toolbar";
+import type { SprayTool } from "@/components/spray-toolbar";
+import type { WallStreamMessage } from "@/lib/events";
+import type { GraffitiItem, GraffitiText, Position } from "@/lib/graffiti";
+import type { ModerationDecision } from "@/lib/moderation";
+import { sortByStacking } from "@/lib/layers";
+import { pathItemSvg } from "@/lib/paths";
+import { textItemSvg } from "@/lib/text-style";
 
-export function GraffitiWall() {
+const POLL_INTERVAL_MS = 1500;
+const REPLAY_STEP_MS = 500;
+// Size of the bundled background, used until the wall's own background has loaded.
+const DEFAULT_WALL_SIZE: WallSize = { width: 1536, height: 1024 };
+const PREVIEW_OPACITY = 0.6;
+// Drags shorter than this (in wall percent) count as a click that only selects the item.
+const MIN_DRAG = 0.2;
+
+type GraffitiWallProps = {
+  wallId?: string;
+  title?: string;
+  background?: string;
+};
+
+/** Pixel size of the wall's background; the wall is shown at its aspect, as in snapshots. */
+type WallSize = {
+  width: number;
+  height: number;
+};
+
+/** Who the wall page sprays as, from /api/me. */
+type WebAuthor = {
+  author: string;
+  admin: boolean;
+  spraying: boolean;
+};
+
+type SprayResponse = {
+  item: GraffitiItem;
+  decision: ModerationDecision;
+  reasons: string[];
+};
+
+/** An edit being made to one of the visitor's items before it is saved. */
+type ItemDraft = {
+  id: string;
+  dx: number;
+  dy: number;
+  rotation: number;
+};
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = (await res.json().catch(() => ({}))) as T & { error?: string };
+  if (!res.ok) {
+    throw new Error(data.error ?? `Request failed (${res.status})`);
+  }
+
+  return data;
+}
+
+function clampPercent(value: number): number {
+  // Positions under 1 on both axes would be read as 0-1 fractions, so the edge stays at 1.
+  return Math.round(Math.min(100, Math.max(1, value)) * 100) / 100;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+/** The item as it looks with an unsaved draft applied; paths are moved with a CSS translate instead. */
+function withDraft(item: GraffitiItem, draft: ItemDraft | null): GraffitiItem {
+  if (!draft || draft.id !== item.id) {
+    return item;
+  }
+
+  if (item.type === "path") {
+    return { ...item, rotation: draft.rotation };
+  }
+
+  return {
+    ...item,
+    position: { x: item.position.x + draft.dx, y: item.position.y + draft.dy },
+    rotation: draft.rotation
+  };
+}
+
+function previewText(tool: SprayTool, position: Position): GraffitiText {
+  const now = new Date().toISOString();
+  return {
+    id: "preview",
+    type: "text",
+    text: tool.text,
+    font: tool.font,
+    color: tool.color,
+    position,
+    size: tool.size,
+    rotation: tool.rotation,
+    opacity: PREVIEW_OPACITY,
+    layer: "top",
+    zIndex: 0,
+    status: "approved",
+    author: "",
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function applyStreamMessage(items: GraffitiItem[], message: WallStreamMessage): GraffitiItem[] {
+  switch (message.type) {
+    case "reset":
+      return sortByStacking(message.items);
+    case "add":
+    case "update":
+      return sortByStacking([...items.filter((item) => item.id !== message.item.id), message.item]);
+    case "remove":
+      return items.filter((item) => item.id !== message.id);
+  }
+}
+
+export function GraffitiWall({
+  wallId = "default",
+  title = "Lefty's Bathroom Wall",
+  background = "/leftys-bg.png"
+}: GraffitiWallProps) {
   const [items, setItems] = useState<GraffitiItem[]>([]);
+  // Index into the timeline of the history step being shown; null means live.
+  const [historyStep, setHistoryStep] = useState<number | null>(null);
+  const [historyItems, setHistoryItems] = useState<GraffitiItem[]>([]);
+  const [replaying, setReplaying] = useState(false);
+  const [me, setMe] = useState<WebAuthor | null>(null);
+  const [tool, setTool] = useState<SprayTool>(DEFAULT_SPRAY_TOOL);
+  const [hover, setHover] = useState<Position | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ItemDraft | null>(null);
+  const [dragStart, setDragStart] = useState<{ id: string; position: Position } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [wallSize, setWallSize] = useState<WallSize>(DEFAULT_WALL_SIZE);
+  const wallRef = useRef<HTMLDivElement>(null);
+  const backgroundRef = useRef<HTMLImageElement>(null);
+  const wallPath = `/api/walls/${encodeURIComponent(wallId)}`;
+
+  const timeline = useMemo(
+    () => [...new Set(items.map((item) => item.createdAt))].sort(),
+    [items]
+  );
+  const liveStep = timeline.length - 1;
+  const cutoff = historyStep === null ? null : timeline[historyStep];
+  const editing = historyStep === null;
+  const selected = items.find((item) => item.id === selectedId) ?? null;
+
+  const isOwn = (item: GraffitiItem) => Boolean(me && (me.admin || item.author === me.author));
+
+  const pointerPosition = (event: { clientX: number; clientY: number }): Position | null => {
+    const wall = wallRef.current;
+    if (!wall) {
+      return null;
+    }
+
+    // clientLeft/clientTop skip the wall's border, which the percentages do not include.
+    const rect = wall.getBoundingClientRect();
+    return {
+      x: clampPercent(((event.clientX - rect.left - wall.clientLeft) / wall.clientWidth) * 100),
+      y: clampPercent(((event.clientY - rect.top - wall.clientTop) / wall.clientHeight) * 100)
+    };
+  };
+
+  const replaceItem = (item: GraffitiItem) => {
+    setItems((current) => applyStreamMessage(current, { type: "update", seq: 0, item }));
+  };
+
+  const spray = async (position: Position) => {
+    if (tool.mode === "text" && !tool.text.trim()) {
+      setNotice("Type something to spray first.");
+      return;
+    }
+
+    if (tool.mode === "sticker" && !tool.sticker) {
+      setNotice("Choose a sticker image first.");
+      return;
+    }
+
+    const body =
+      tool.mode === "text"
+        ? {
+            type: "text",
+            text: tool.text,
+            font: tool.font,
+            color: tool.color,
+            size: tool.size,
+            rotation: tool.rotation,
+            position
+          }
+        : {
+            type: "image",
+            image_blob: tool.sticker!.dataUrl,
+            position,
+            dimensions: {
+              width: tool.stickerWidth,
+              height: Math.min(100, (tool.stickerWidth * tool.sticker!.aspect * wallSize.width) / wallSize.height)
+            },
+            rotation: tool.rotation
+          };
+
+    try {
+      const result = await requestJson<SprayResponse>(`${wallPath}/graffiti`, "POST", body);
+      if (result.decision === "queued") {
+        setNotice(`Waiting for a moderator: ${result.reasons.join("; ")}`);
+      } else {
+        setNotice(null);
+        replaceItem(result.item);
+      }
+    } catch (error) {
+      setNotice(errorMessage(error));
+    }
+  };
+
+  const saveEdit = async (id: string, patch: { position?: Position; rotation?: number }) => {
+    try {
+      const result = await requestJson<{ item: GraffitiItem }>(
+        `${wallPath}/graffiti/${encodeURIComponent(id)}`,
+        "PATCH",
+        patch
+      );
+      replaceItem(result.item);
+      setNotice(null);
+    } catch (error) {
+      setNotice(errorMessage(error));
+    } finally {
+      setDraft(null);
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (!selected) {
+      return;
+    }
+
+    try {
+      await requestJson(`${wallPath}/graffiti/${encodeURIComponent(selected.id)}`, "DELETE");
+      setItems((current) => current.filter((item) => item.id !== selected.id));
+      setSelectedId(null);
+      setNotice(null);
+    } catch (error) {
+      setNotice(errorMessage(error));
+    }
+  };
+
+  const startDrag = (event: ReactPointerEvent, item: GraffitiItem) => {
+    if (!editing || !isOwn(item)) {
+      return;
+    }
+
+    // Keep the wall from treating the press as a spray.
+    event.stopPropagation();
+    event.preventDefault();
+    const position = pointerPosition(event);
+    if (!position) {
+      return;
+    }
+
+    setSelectedId(item.id);
+    setDragStart({ id: item.id, position });
+    setDraft({ id: item.id, dx: 0, dy: 0, rotation: item.rotation });
+  };
+
+  const measureBackground = (image: HTMLImageElement) => {
+    if (image.naturalWidth > 0 && image.naturalHeight > 0) {
+      setWallSize({ width: image.naturalWidth, height: image.naturalHeight });
+    }
+  };
+
+  // A cached background can finish loading before React attaches onLoad.
+  useEffect(() => {
+    if (backgroundRef.current?.complete) {
+      measureBackground(backgroundRef.current);
+    }
+  }, [background]);
 
   useEffect(() => {
     let active = true;
+    let poll: ReturnType<typeof setInterval> | undefined;
+    let source: EventSource | undefined;
 
     const load = async () => {
-      const res = await fetch("/api/graffiti", { cache: "no-store" });
+      const res = await fetch(`${wallPath}/graffiti`, {
+        cache: "no-store"
+      });
       if (!res.ok) {
         return;
       }
@@ -21,28 +303,194 @@ export function GraffitiWall() {
       }
     };
 
-    void load();
-    const poll = setInterval(() => {
+    const startPolling = () => {
+      if (poll) {
+        return;
+      }
+
       void load();
-    }, 1500);
+      poll = setInterval(() => {
+        void load();
+      }, POLL_INTERVAL_MS);
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      const stream = new EventSource(`${wallPath}/events`);
+      source = stream;
+
+      stream.onmessage = (event: MessageEvent<string>) => {
+        const message = JSON.parse(event.data) as WallStreamMessage;
+        if (active) {
+          setItems((current) => applyStreamMessage(current, message));
+        }
+      };
+
+      // EventSource reconnects dropped streams on its own and resumes from the last
+      // event id; it only closes for good when the endpoint is missing or broken.
+      stream.onerror = () => {
+        if (stream.readyState === EventSource.CLOSED) {
+          stream.close();
+          startPolling();
+        }
+      };
+    }
 
     return () => {
       active = false;
+      source?.close();
       clearInterval(poll);
     };
+  }, [wallPath]);
+
+  useEffect(() => {
+    if (!cutoff) {
+      return;
+    }
+
+    let active = true;
+    const loadHistory = async () => {
+      const res = await fetch(`${wallPath}/graffiti?until=${encodeURIComponent(cutoff)}`, {
+        cache: "no-store"
+      });
+      if (!res.ok) {
+        return;
+      }
+
+      const next = (await res.json()) as GraffitiItem[];
+      if (active) {
+        setHistoryItems(next);
+      }
+    };
+
+    void loadHistory();
+    return () => {
+      active = false;
+    };
+  }, [wallPath, cutoff]);
+
+  useEffect(() => {
+    if (!replaying) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const next = (historyStep ?? -1) + 1;
+      if (next >= liveStep) {
+        setReplaying(false);
+        setHistoryStep(null);
+      } else {
+        setHistoryStep(next);
+      }
+    }, REPLAY_STEP_MS);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [replaying, historyStep, liveStep]);
+
+  useEffect(() => {
+    let active = true;
+    const loadMe = async () => {
+      const res = await fetch("/api/me", { cache: "no-store" });
+      if (res.ok && active) {
+        setMe((await res.json()) as WebAuthor);
+      }
+    };
+
+    void loadMe();
+    return () => {
+      active = false;
+    };
   }, []);
 
+  useEffect(() => {
+    if (!dragStart) {
+      return;
+    }
+
+    const offset = (event: PointerEvent) => {
+      const position = pointerPosition(event);
+      return position
+        ? { dx: position.x - dragStart.position.x, dy: position.y - dragStart.position.y }
+        : { dx: 0, dy: 0 };
+    };
+
+    const onMove = (event: PointerEvent) => {
+      const { dx, dy } = offset(event);
+      setDraft((current) => current && { ...current, dx, dy });
+    };
+
+    const onUp = (event: PointerEvent) => {
+      setDragStart(null);
+      const item = items.find((candidate) => candidate.id === dragStart.id);
+      const { dx, dy } = offset(event);
+      if (!item || (Math.abs(dx) < MIN_DRAG && Math.abs(dy) < MIN_DRAG)) {
+        setDraft(null);
+        return;
+      }
+
+      void saveEdit(item.id, {
+        position: { x: clampPercent(item.position.x + dx), y: clampPercent(item.position.y + dy) }
+      });
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [dragStart, items]);
+
+  const visibleItems = (historyStep === null ? items : historyItems).map((item) => withDraft(item, draft));
+  const spraying = editing && me?.spraying === true && tool.mode !== "view";
+
+  const itemClass = (base: string, item: GraffitiItem) =>
+    [
+      base,
+      editing && isOwn(item) ? "graffiti-own" : null,
+      item.id === selectedId ? "graffiti-selected" : null
+    ]
+      .filter(Boolean)
+      .join(" ");
+
   return (
     <div className="wall-shell">
-      <h1 className="wall-title">Lefty's Bathroom Wall</h1>
-      <div className="wall">
-        <img className="wall-bg" src="/leftys-bg.png" alt="Lefty's Bathroom wall background" />
-        {items.map((item) => {
+      <h1 className="wall-title">{title}</h1>
+      <div
+        className={spraying ? "wall wall-spraying" : "wall"}
+        ref={wallRef}
+        style={{ aspectRatio: `${wallSize.width} / ${wallSize.height}` }}
+        onPointerMove={(event) => setHover(spraying ? pointerPosition(event) : null)}
+        onPointerLeave={() => setHover(null)}
+        onPointerDown={(event) => {
+          if (!spraying) {
+            setSelectedId(null);
+            return;
+          }
+
+          const position = pointerPosition(event);
+          if (position) {
+            void spray(position);
+          }
+        }}
+      >
+        <img
+          className="wall-bg"
+          ref={backgroundRef}
+          src={background}
+          alt={`${title} background`}
+          onLoad={(event) => measureBackground(event.currentTarget)}
+        />
+        {visibleItems.map((item) => {
           if (item.type === "image") {
             return (
               <div
-                className="graffiti-item"
+                className={itemClass("graffiti-item", item)}
                 key={item.id}
+                onPointerDown={(event) => startDrag(event, item)}
                 style={{
                   left: `${item.position.x}%`,
                   top: `${item.position.y}%`,
@@ -57,31 +505,121 @@ export function GraffitiWall() {
             );
           }
 
+          if (item.type === "path") {
+            const moving = draft?.id === item.id ? draft : null;
+            return (
+              <svg
+                className={itemClass("graffiti-path", item)}
+                key={item.id}
+                viewBox={`0 0 ${wallSize.width} ${wallSize.height}`}
+                preserveAspectRatio="none"
+                onPointerDown={(event) => startDrag(event, item)}
+                style={moving ? { transform: `translate(${moving.dx}%, ${moving.dy}%)` } : undefined}
+                dangerouslySetInnerHTML={{ __html: pathItemSvg(item, wallSize.width, wallSize.height) }}
+              />
+            );
+          }
+
+          // Same SVG as the snapshot renderer, so styling matches between the two.
           return (
-            <div
-              className="graffiti-item"
+            <svg
+              className={itemClass("graffiti-text", item)}
               key={item.id}
+              width="1"
+              height="1"
+              onPointerDown={(event) => startDrag(event, item)}
               style={{
                 left: `${item.position.x}%`,
                 top: `${item.position.y}%`,
-                opacity: item.opacity,
-                transform: `translate(-50%, -50%) rotate(${item.rotation}deg)`
+                opacity: item.opacity
               }}
             >
-              <p
-                className="graffiti-text"
-                style={{
-                  fontFamily: item.font,
-                  color: item.color,
-                  fontSize: `${item.size}px`
-                }}
-              >
-                {item.text}
-              </p>
-            </div>
+              <g
+                transform={`rotate(${item.rotation})`}
+                dangerouslySetInnerHTML={{ __html: textItemSvg(item) }}
+              />
+            </svg>
           );
         })}
+        {spraying && hover && tool.mode === "text" && tool.text.trim() && (
+          <svg
+            className="graffiti-text graffiti-preview"
+            width="1"
+            height="1"
+            style={{ left: `${hover.x}%`, top: `${hover.y}%`, opacity: PREVIEW_OPACITY }}
+          >
+            <g
+              transform={`rotate(${tool.rotation})`}
+              dangerouslySetInnerHTML={{ __html: textItemSvg(previewText(tool, hover)) }}
+            />
+          </svg>
+        )}
+        {spraying && hover && tool.mode === "sticker" && tool.sticker && (
+          <div
+            className="graffiti-item graffiti-preview"
+            style={{
+              left: `${hover.x}%`,
+              top: `${hover.y}%`,
+              width: `${tool.stickerWidth}%`,
+              aspectRatio: `1 / ${tool.sticker.aspect}`,
+              opacity: PREVIEW_OPACITY,
+              transform: `translate(-50%, -50%) rotate(${tool.rotation}deg)`
+            }}
+          >
+            <img className="graffiti-image" src={tool.sticker.dataUrl} alt="Sticker preview" />
+          </div>
+        )}
       </div>
+      {me?.spraying && (
+        <SprayToolbar
+          tool={tool}
+          onToolChange={(next) => {
+            setTool(next);
+            setNotice(null);
+          }}
+          disabled={!editing}
+          selected={editing ? selected : null}
+          selectedRotation={draft?.id === selectedId ? draft.rotation : (selected?.rotation ?? 0)}
+          onRotate={(rotation) => {
+            if (selected) {
+              setDraft({ id: selected.id, dx: 0, dy: 0, rotation });
+            }
+          }}
+          onRotateDone={() => {
+            if (selected && draft?.id === selected.id && draft.rotation !== selected.rotation) {
+              void saveEdit(selected.id, { rotation: draft.rotation });
+            }
+          }}
+          onDelete={() => void deleteSelected()}
+          onDeselect={() => setSelectedId(null)}
+          notice={notice}
+        />
+      )}
+      {timeline.length > 1 && (
+        <div className="wall-history">
+          <button type="button" onClick={() => setReplaying((current) => !current)}>
+            {replaying ? "Pause" : "Replay"}
+          </button>
+          <input
+            type="range"
+            aria-label="Wall history"
+            min={0}
+            max={liveStep}
+            value={historyStep ?? liveStep}
+            onChange={(event) => {
+              const step = Number(event.target.value);
+              setReplaying(false);
+              setHistoryStep(step >= liveStep ? null : step);
+            }}
+          />
+          <p className="wall-note">
+            {cutoff ? new Date(cutoff).toLocaleString() : "Live"}
+            {cutoff && (
+              <span className="wall-history-caveat">Later edits are shown as they are now; erased items are missing.</span>
+            )}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
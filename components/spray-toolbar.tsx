@@ -0,0 +1,250 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import { BUNDLED_FONTS, DEFAULT_FONT } from "@/lib/fonts";
+import type { GraffitiItem } from "@/lib/graffiti";
+
+export type SprayMode = "view" | "text" | "sticker";
+
+export type Sticker = {
+  dataUrl: string;
+  /** Image height divided by width. */
+  aspect: number;
+};
+
+export type SprayTool = {
+  mode: SprayMode;
+  text: string;
+  font: string;
+  color: string;
+  size: number;
+  rotation: number;
+  sticker: Sticker | null;
+  /** Sticker width as a percentage of the wall. */
+  stickerWidth: number;
+};
+
+export const DEFAULT_SPRAY_TOOL: SprayTool = {
+  mode: "view",
+  text: "",
+  font: DEFAULT_FONT,
+  color: "#111111",
+  size: 42,
+  rotation: 0,
+  sticker: null,
+  stickerWidth: 15
+};
+
+// Uploads are sent inline as data URLs; the server refuses stored images over 10 MB anyway.
+const MAX_STICKER_BYTES = 8 * 1024 * 1024;
+
+const MODES: { mode: SprayMode; label: string }[] = [
+  { mode: "view", label: "Look" },
+  { mode: "text", label: "Spray text" },
+  { mode: "sticker", label: "Stick a sticker" }
+];
+
+type SprayToolbarProps = {
+  tool: SprayTool;
+  onToolChange: (tool: SprayTool) => void;
+  disabled: boolean;
+  /** One of the visitor's own items, picked on the wall for editing. */
+  selected: GraffitiItem | null;
+  selectedRotation: number;
+  onRotate: (rotation: number) => void;
+  onRotateDone: () => void;
+  onDelete: () => void;
+  onDeselect: () => void;
+  notice: string | null;
+};
+
+function readSticker(file: File): Promise<Sticker> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      const image = new Image();
+      image.onerror = () => reject(new Error("That file is not an image the browser can show"));
+      image.onload = () => resolve({ dataUrl, aspect: image.naturalHeight / image.naturalWidth });
+      image.src = dataUrl;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+export function SprayToolbar({
+  tool,
+  onToolChange,
+  disabled,
+  selected,
+  selectedRotation,
+  onRotate,
+  onRotateDone,
+  onDelete,
+  onDeselect,
+  notice
+}: SprayToolbarProps) {
+  const update = (patch: Partial<SprayTool>) => onToolChange({ ...tool, ...patch });
+
+  const pickSticker = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_STICKER_BYTES) {
+      window.alert("Stickers can be at most 8 MB.");
+      return;
+    }
+
+    try {
+      update({ sticker: await readSticker(file) });
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Could not read the file");
+    }
+  };
+
+  return (
+    <div className="spray-toolbar">
+      <div className="spray-modes" role="radiogroup" aria-label="Spray tool">
+        {MODES.map(({ mode, label }) => (
+          <button
+            type="button"
+            role="radio"
+            aria-checked={tool.mode === mode}
+            className={tool.mode === mode ? "active" : undefined}
+            key={mode}
+            disabled={disabled}
+            onClick={() => update({ mode })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tool.mode === "text" && (
+        <div className="spray-options">
+          <input
+            type="text"
+            aria-label="Text"
+            placeholder="Your tag"
+            maxLength={200}
+            value={tool.text}
+            disabled={disabled}
+            onChange={(event) => update({ text: event.target.value })}
+          />
+          <select
+            aria-label="Font"
+            value={tool.font}
+            disabled={disabled}
+            onChange={(event) => update({ font: event.target.value })}
+          >
+            {BUNDLED_FONTS.map((font) => (
+              <option key={font.family} value={font.family}>
+                {font.family}
+              </option>
+            ))}
+          </select>
+          <input
+            type="color"
+            aria-label="Color"
+            value={tool.color}
+            disabled={disabled}
+            onChange={(event) => update({ color: event.target.value })}
+          />
+          <label>
+            Size
+            <input
+              type="range"
+              min={8}
+              max={300}
+              value={tool.size}
+              disabled={disabled}
+              onChange={(event) => update({ size: Number(event.target.value) })}
+            />
+          </label>
+          <label>
+            Tilt
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={tool.rotation}
+              disabled={disabled}
+              onChange={(event) => update({ rotation: Number(event.target.value) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {tool.mode === "sticker" && (
+        <div className="spray-options">
+          <input
+            type="file"
+            aria-label="Sticker image"
+            accept="image/png,image/jpeg,image/webp,image/gif"
+            disabled={disabled}
+            onChange={(event) => void pickSticker(event)}
+          />
+          <label>
+            Width
+            <input
+              type="range"
+              min={2}
+              max={60}
+              value={tool.stickerWidth}
+              disabled={disabled}
+              onChange={(event) => update({ stickerWidth: Number(event.target.value) })}
+            />
+          </label>
+          <label>
+            Tilt
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={tool.rotation}
+              disabled={disabled}
+              onChange={(event) => update({ rotation: Number(event.target.value) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {selected && (
+        <div className="spray-options spray-selection">
+          <span>Editing your {selected.type}</span>
+          <label>
+            Rotation
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={selectedRotation}
+              disabled={disabled}
+              onChange={(event) => onRotate(Number(event.target.value))}
+              onPointerUp={onRotateDone}
+              onKeyUp={onRotateDone}
+            />
+          </label>
+          <button type="button" disabled={disabled} onClick={onDelete}>
+            Delete
+          </button>
+          <button type="button" onClick={onDeselect}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <p className="wall-note">
+        {notice ??
+          (disabled
+            ? "Go back to the live wall to spray or edit."
+            : tool.mode === "view"
+              ? "Pick a tool to spray, or drag your own graffiti to move it."
+              : "Click the wall to spray there.")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { ForbiddenError } from "./errors.ts";
+
+export type ApiKeyScope = "spray" | "admin";
+
+export type ClientIdentity = {
+  client: string;
+  scope: ApiKeyScope;
+  /** Budgets are kept under this key instead of client when set, e.g. for browsers that can mint new identities. */
+  quotaKey?: string;
+};
+
+type ApiKeyEntry = ClientIdentity & {
+  key: string;
+};
+
+/** Thrown while the key file cannot be used; every caller is refused until it is fixed. */
+export class ApiKeyFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiKeyFileError";
+  }
+}
+
+const apiKeyFileSchema = z.array(
+  z.object({
+    key: z.string().min(1),
+    client: z.string().min(1),
+    scope: z.enum(["spray", "admin"])
+  })
+);
+
+export const ANONYMOUS_IDENTITY: ClientIdentity = {
+  client: "anonymous",
+  scope: "spray"
+};
+
+const KEYS_FILE = process.env.MCP_API_KEYS_FILE ?? path.join(process.cwd(), "data", "api-keys.json");
+
+// The last problem reported for the key file, so a broken file is logged once
+// rather than on every request.
+let reportedProblem: string | null = null;
+
+function parseApiKeys(raw: string): ApiKeyEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    // The parser's message quotes the file, keys and all, so it is left out.
+    throw new Error(`${KEYS_FILE} is not valid JSON`);
+  }
+
+  const parsed = apiKeyFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "file"}: ${issue.message}`);
+    throw new Error(`${KEYS_FILE} is not a valid key list: ${issues.join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Reads the key file on every call so keys can be rotated without a restart;
+ * null when it does not exist. A file that is not a valid key list throws
+ * ApiKeyFileError rather than letting anyone in.
+ */
+export async function loadApiKeys(): Promise<ApiKeyEntry[] | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(KEYS_FILE, "utf8");
+  } catch {
+    return null;
+  }
+
+  try {
+    const keys = parseApiKeys(raw);
+    reportedProblem = null;
+    return keys;
+  } catch (error) {
+    // Callers only learn that the file is broken; the details are for the operator.
+    if ((error as Error).message !== reportedProblem) {
+      reportedProblem = (error as Error).message;
+      console.error(`Refusing all API keys: ${reportedProblem}`);
+    }
+
+    throw new ApiKeyFileError("API keys are unavailable: the server's key file is invalid");
+  }
+}
+
+/** Running without a key file only stays open when MCP_ALLOW_ANONYMOUS opts in. */
+function anonymousAccessAllowed(): boolean {
+  return ["1", "true", "on"].includes(process.env.MCP_ALLOW_ANONYMOUS?.trim().toLowerCase() ?? "");
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function parseBearer(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Resolves the caller behind an Authorization header; an unknown or missing key
+ * resolves to null. Without a key file every caller is refused, unless
+ * MCP_ALLOW_ANONYMOUS is set, which lets them in as an anonymous, spray-only
+ * identity. Throws ApiKeyFileError while the key file is broken.
+ */
+export async function resolveClientIdentity(
+  authorizationHeader: string | undefined
+): Promise<ClientIdentity | null> {
+  const keys = await loadApiKeys();
+  if (!keys) {
+    return anonymousAccessAllowed() ? ANONYMOUS_IDENTITY : null;
+  }
+
+  const token = parseBearer(authorizationHeader);
+  if (!token) {
+    return null;
+  }
+
+  const tokenDigest = digest(token);
+  const entry = keys.find((candidate) => timingSafeEqual(digest(candidate.key), tokenDigest));
+  return entry ? { client: entry.client, scope: entry.scope } : null;
+}
+
+export function requireAdmin(identity: ClientIdentity, toolName: string): void {
+  if (identity.scope !== "admin") {
+    throw new ForbiddenError(`${toolName} requires an admin API key; "${identity.client}" may only spray.`);
+  }
+}
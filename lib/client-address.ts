@@ -0,0 +1,34 @@
+import type { IncomingMessage } from "node:http";
+
+// Browsers have no API key, so their rate limits and paint budgets are kept per
+// network address. x-forwarded-for is whatever the caller sent plus one entry
+// per proxy, so only the entries trusted proxies appended are believed.
+
+/** Header the custom server sets on every request before Next.js sees it; any value a client sent is overwritten. */
+export const CLIENT_ADDRESS_HEADER = "x-leftys-client-address";
+
+/** How many reverse proxies sit in front of the server; 0 trusts only the socket. */
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The caller's address: the socket peer, or with TRUSTED_PROXY_HOPS set, the
+ * x-forwarded-for entry the outermost trusted proxy appended.
+ */
+export function resolveClientAddress(request: IncomingMessage): string {
+  const socketAddress = request.socket.remoteAddress ?? "unknown";
+  const hops = trustedProxyHops();
+  if (hops === 0) {
+    return socketAddress;
+  }
+
+  const header = request.headers["x-forwarded-for"];
+  const forwarded = (Array.isArray(header) ? header.join(",") : (header ?? ""))
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  // The last hop is added by the proxy next to us, so `hops` entries from the end is the client.
+  return forwarded[forwarded.length - hops] ?? socketAddress;
+}
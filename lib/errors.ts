@@ -0,0 +1,35 @@
+// Failures callers need to tell apart. The MCP tools turn each into a
+// machine-readable error code and the REST endpoints into a status. Kept free
+// of Node-only imports, since paths.ts (shared with the browser) throws them too.
+
+/** The request is well formed but asks for something that cannot be done as given. */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/** A wall, item or group the request refers to does not exist. */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/** An image could not be downloaded, decoded or accepted for storage. */
+export class ImageSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageSourceError";
+  }
+}
+
+/** The caller's API key does not allow the action. */
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
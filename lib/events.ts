@@ -0,0 +1,104 @@
+import { randomUUID } from "node:crypto";
+import type { GraffitiItem } from "./graffiti.ts";
+
+export type WallChange =
+  | { type: "add"; wallId: string; item: GraffitiItem }
+  | { type: "update"; wallId: string; item: GraffitiItem }
+  | { type: "remove"; wallId: string; id: string };
+
+export type WallEvent = WallChange & {
+  seq: number;
+};
+
+/** Payload of one server-sent event on /api/walls/:id/events. */
+export type WallStreamMessage =
+  | { type: "reset"; seq: number; items: GraffitiItem[] }
+  | { type: "add" | "update"; seq: number; item: GraffitiItem }
+  | { type: "remove"; seq: number; id: string };
+
+type WallEventListener = (event: WallEvent) => void;
+
+type WallEventBus = {
+  bootId: string;
+  seq: number;
+  buffer: WallEvent[];
+  listeners: Set<WallEventListener>;
+};
+
+const BUFFER_SIZE = 1000;
+const BUS_KEY = Symbol.for("leftys.wallEventBus");
+
+// Next.js bundles its own copy of lib/ next to the one loaded by server.ts, so the
+// bus lives on globalThis to let both copies publish to the same subscribers.
+function getBus(): WallEventBus {
+  const registry = globalThis as typeof globalThis & { [BUS_KEY]?: WallEventBus };
+  registry[BUS_KEY] ??= {
+    bootId: randomUUID().slice(0, 8),
+    seq: 0,
+    buffer: [],
+    listeners: new Set()
+  };
+
+  return registry[BUS_KEY];
+}
+
+export function formatEventId(seq: number): string {
+  return `${getBus().bootId}-${seq}`;
+}
+
+export function currentEventSeq(): number {
+  return getBus().seq;
+}
+
+export function publishWallEvent(change: WallChange): WallEvent {
+  const bus = getBus();
+  bus.seq += 1;
+
+  const event: WallEvent = { ...change, seq: bus.seq };
+  bus.buffer.push(event);
+  if (bus.buffer.length > BUFFER_SIZE) {
+    bus.buffer.shift();
+  }
+
+  for (const listener of bus.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Wall event listener failed", error);
+    }
+  }
+
+  return event;
+}
+
+export function subscribeWallEvents(listener: WallEventListener): () => void {
+  const bus = getBus();
+  bus.listeners.add(listener);
+  return () => {
+    bus.listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the buffered events for a wall after the given event id, or null when
+ * the id is from another server boot or has already fallen out of the buffer.
+ */
+export function getWallEventsSince(wallId: string, lastEventId: string): WallEvent[] | null {
+  const bus = getBus();
+  const match = lastEventId.match(/^([^-]+)-(\d+)$/);
+  if (!match || match[1] !== bus.bootId) {
+    return null;
+  }
+
+  const since = Number(match[2]);
+  if (since > bus.seq) {
+    return null;
+  }
+
+  const oldest = bus.buffer[0]?.seq ?? bus.seq + 1;
+  if (since + 1 < oldest) {
+    return null;
+  }
+
+  return bus.buffer.filter((event) => event.seq > since && event.wallId === wallId);
+}
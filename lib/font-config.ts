@@ -0,0 +1,39 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const FONT_DIR = path.join(process.cwd(), "public", "fonts");
+const CONFIG_DIR = path.join(os.tmpdir(), "leftys-graffiti-fontconfig");
+const SYSTEM_CONFIG = process.env.FONTCONFIG_FILE ?? "/etc/fonts/fonts.conf";
+
+let registration: Promise<void> | null = null;
+
+async function writeFontconfig(): Promise<void> {
+  await fs.mkdir(path.join(CONFIG_DIR, "cache"), { recursive: true });
+
+  const configPath = path.join(CONFIG_DIR, "fonts.conf");
+  const config = `<?xml version="1.0"?>
+<!DOCTYPE fontconfig SYSTEM "fonts.dtd">
+<fontconfig>
+  <include ignore_missing="yes">${SYSTEM_CONFIG}</include>
+  <dir>${FONT_DIR}</dir>
+  <cachedir>${path.join(CONFIG_DIR, "cache")}</cachedir>
+</fontconfig>
+`;
+  await fs.writeFile(configPath, config);
+  process.env.FONTCONFIG_FILE = configPath;
+}
+
+/**
+ * Points fontconfig at public/fonts on top of the system configuration, so
+ * librsvg inside sharp finds the bundled fonts. Fontconfig reads its
+ * configuration the first time text is laid out, so this must finish before
+ * the first SVG with text is rendered; later calls are no-ops.
+ */
+export function registerBundledFonts(): Promise<void> {
+  registration ??= writeFontconfig().catch((error) => {
+    registration = null;
+    throw error;
+  });
+  return registration;
+}
@@ -0,0 +1,78 @@
+// The fonts text items may use. The browser wall loads them with @font-face and
+// the snapshot renderer registers them with fontconfig, so both draw the same
+// glyphs. Shared with the browser, so no Node-only imports.
+
+export type FontCategory = "sans-serif" | "serif" | "monospace";
+
+export type BundledFont = {
+  /** Family name inside the font file; fontconfig matches on it. */
+  family: string;
+  /** File name under public/fonts. */
+  file: string;
+  weight: number;
+  category: FontCategory;
+  /** License file under public/fonts. */
+  license: string;
+};
+
+export const FONT_URL_PREFIX = "/fonts";
+
+export const BUNDLED_FONTS: BundledFont[] = [
+  {
+    family: "DejaVu Sans",
+    file: "DejaVuSans-Bold.ttf",
+    weight: 700,
+    category: "sans-serif",
+    license: "LICENSE-DejaVu.txt"
+  },
+  {
+    family: "DejaVu Serif",
+    file: "DejaVuSerif-Bold.ttf",
+    weight: 700,
+    category: "serif",
+    license: "LICENSE-DejaVu.txt"
+  },
+  {
+    family: "Lato",
+    file: "Lato-Regular.ttf",
+    weight: 400,
+    category: "sans-serif",
+    license: "OFL.txt"
+  },
+  {
+    family: "Source Code Pro",
+    file: "SourceCodePro-Bold.ttf",
+    weight: 700,
+    category: "monospace",
+    license: "OFL.txt"
+  }
+];
+
+export const DEFAULT_FONT = "DejaVu Sans";
+
+/** Looks a font up by family name, ignoring case and surrounding quotes. */
+export function findFont(name: string): BundledFont | undefined {
+  const wanted = name.trim().replace(/^["']|["']$/g, "").toLowerCase();
+  return BUNDLED_FONTS.find((font) => font.family.toLowerCase() === wanted);
+}
+
+/**
+ * CSS font-family and font-weight for an item's font. Items saved before the
+ * registry may hold any font string; those pass through unchanged.
+ */
+export function fontStyle(name: string): { family: string; weight: number | null } {
+  const font = findFont(name);
+  if (!font) {
+    return { family: name, weight: null };
+  }
+
+  return { family: `'${font.family}', ${font.category}`, weight: font.weight };
+}
+
+/** @font-face rules for every bundled font. */
+export function fontFaceCss(): string {
+  return BUNDLED_FONTS.map(
+    (font) =>
+      `@font-face { font-family: "${font.family}"; src: url("${FONT_URL_PREFIX}/${font.file}") format("truetype"); font-weight: ${font.weight}; font-display: swap; }`
+  ).join("\n");
+}
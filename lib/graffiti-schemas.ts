@@ -0,0 +1,296 @@
+import { z } from "zod";
+import { BUNDLED_FONTS, DEFAULT_FONT, findFont } from "./fonts.ts";
+import type { GraffitiPatch } from "./graffiti.ts";
+import { LAYERS } from "./layers.ts";
+import { LINE_CAPS, LINE_JOINS, SHAPES } from "./paths.ts";
+import type { Shape } from "./paths.ts";
+import { TEXT_ALIGNS, TEXT_EFFECTS } from "./text-style.ts";
+import type { TextShadow } from "./text-style.ts";
+import { DEFAULT_WALL_ID } from "./walls.ts";
+
+// Argument shapes shared by the MCP tools and the REST endpoints the wall page
+// uses, so both accept exactly the same input. Field names are snake_case, as
+// MCP clients see them.
+
+export const percent = z.number().min(0).max(100);
+const rotation = z.number().min(-360).max(360).default(0);
+const opacity = z.number().min(0).max(1).default(1);
+export const wallId = z.string().default(DEFAULT_WALL_ID);
+const layer = z.enum(LAYERS).default("default");
+const zIndex = z.number().int().optional();
+const avoidOverlap = z.boolean().default(false);
+export const cssColor = z
+  .string()
+  .regex(
+    /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+|(rgb|rgba|hsl|hsla)\([0-9.,%\s/+-]+\))$/,
+    "Use a hex, rgb(), hsl() or named CSS color"
+  );
+
+const fontNames = BUNDLED_FONTS.map((font) => font.family);
+const fontName = z
+  .string()
+  .describe(`One of: ${fontNames.join(", ")}`)
+  .transform((name, context) => {
+    const font = findFont(name);
+    if (!font) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown font "${name}". Choose one of: ${fontNames.join(", ")} (see list_fonts).`
+      });
+      return z.NEVER;
+    }
+
+    return font.family;
+  });
+
+export const positionSchema = z.object({
+  x: percent,
+  y: percent
+});
+
+export const dimensionsSchema = z.object({
+  width: percent,
+  height: percent
+});
+
+const strokeSchema = z.object({
+  color: cssColor,
+  width: z.number().min(0.5).max(40)
+});
+
+const shadowSchema = z.object({
+  color: cssColor.default("rgba(0, 0, 0, 0.6)"),
+  offset_x: z.number().min(-100).max(100).default(4),
+  offset_y: z.number().min(-100).max(100).default(4),
+  blur: z.number().min(0).max(50).default(4)
+});
+
+const gradientSchema = z.object({
+  colors: z.array(cssColor).min(2).max(6),
+  angle: z.number().min(-360).max(360).default(0)
+});
+
+const letterSpacing = z.number().min(-20).max(100);
+
+export const sprayTextSchema = {
+  wall_id: wallId,
+  text: z.string().min(1),
+  font: fontName.default(DEFAULT_FONT),
+  color: cssColor.default("#111111"),
+  position: positionSchema,
+  size: z.number().min(8).max(300).default(42),
+  rotation,
+  opacity,
+  layer,
+  z_index: zIndex,
+  stroke: strokeSchema.optional(),
+  shadow: shadowSchema.optional(),
+  letter_spacing: letterSpacing.optional(),
+  align: z.enum(TEXT_ALIGNS).optional(),
+  gradient: gradientSchema.optional(),
+  effect: z.enum(TEXT_EFFECTS).optional(),
+  avoid_overlap: avoidOverlap
+};
+
+const strokeWidth = z.number().min(0.05).max(20);
+
+export const pathStyleSchema = {
+  color: cssColor.default("#111111"),
+  stroke_width: strokeWidth.default(0.5),
+  fill: cssColor.default("none"),
+  line_cap: z.enum(LINE_CAPS).default("round"),
+  line_join: z.enum(LINE_JOINS).default("round"),
+  rotation,
+  opacity,
+  layer,
+  z_index: zIndex,
+  avoid_overlap: avoidOverlap
+};
+
+export const sprayPathSchema = {
+  wall_id: wallId,
+  d: z.string().min(1).max(20_000).optional(),
+  points: z.array(positionSchema).min(2).max(2000).optional(),
+  smooth: z.boolean().default(false),
+  closed: z.boolean().default(false),
+  ...pathStyleSchema
+};
+
+export const sprayImageSchema = {
+  wall_id: wallId,
+  image_url: z.string().url().optional(),
+  image_blob: z.string().optional(),
+  position: positionSchema,
+  dimensions: dimensionsSchema,
+  rotation,
+  opacity,
+  layer,
+  z_index: zIndex,
+  avoid_overlap: avoidOverlap
+};
+
+export const rectSchema = z.object({
+  x: percent,
+  y: percent,
+  width: percent,
+  height: percent
+});
+
+export const sprayShapeSchema = {
+  wall_id: wallId,
+  shape: z.enum(SHAPES),
+  rect: rectSchema.optional(),
+  from: positionSchema.optional(),
+  to: positionSchema.optional(),
+  head_size: z.number().min(0.5).max(30).default(3),
+  ...pathStyleSchema
+};
+
+// The refinements the spray tools check on top of their shapes, kept apart so
+// spray_batch items are held to the same rules.
+const imageSourceRule = {
+  check: (value: { image_url?: string; image_blob?: string }) => Boolean(value.image_url || value.image_blob),
+  message: "Provide image_url or image_blob"
+};
+
+const pathSourceRule = {
+  check: (value: { d?: string; points?: unknown[] }) => Boolean(value.d) !== Boolean(value.points),
+  message: "Provide either d or points"
+};
+
+const shapeGeometryRule = {
+  check: (value: { shape: Shape; rect?: unknown; from?: unknown; to?: unknown }) =>
+    Boolean(value.shape === "rect" || value.shape === "ellipse" ? value.rect : value.from && value.to),
+  message: "rect and ellipse need rect; line and arrow need from and to"
+};
+
+export const sprayImageInput = z.object(sprayImageSchema).refine(imageSourceRule.check, imageSourceRule.message);
+
+export const sprayPathInput = z.object(sprayPathSchema).refine(pathSourceRule.check, pathSourceRule.message);
+
+export const sprayShapeInput = z.object(sprayShapeSchema).refine(shapeGeometryRule.check, shapeGeometryRule.message);
+
+export const MAX_BATCH_ITEMS = 50;
+
+// Batch items take their wall from the batch. avoid_overlap would pull the
+// composition apart, so it is left out; place the whole piece with find_free_spot.
+const batchOnly = { wall_id: true, avoid_overlap: true } as const;
+
+export const batchItemSchema = z
+  .discriminatedUnion("type", [
+    z.object(sprayTextSchema).omit(batchOnly).extend({ type: z.literal("text") }),
+    z.object(sprayImageSchema).omit(batchOnly).extend({ type: z.literal("image") }),
+    z.object(sprayPathSchema).omit(batchOnly).extend({ type: z.literal("path") }),
+    z.object(sprayShapeSchema).omit(batchOnly).extend({ type: z.literal("shape") })
+  ])
+  .superRefine((item, context) => {
+    const rule =
+      item.type === "image"
+        ? imageSourceRule.check(item) || imageSourceRule.message
+        : item.type === "path"
+          ? pathSourceRule.check(item) || pathSourceRule.message
+          : item.type === "shape"
+            ? shapeGeometryRule.check(item) || shapeGeometryRule.message
+            : true;
+    if (rule !== true) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: rule });
+    }
+  });
+
+export const sprayBatchSchema = {
+  wall_id: wallId,
+  items: z.array(batchItemSchema).min(1).max(MAX_BATCH_ITEMS)
+};
+
+/** Fields update_graffiti and the wall page may change; null removes a text style. */
+export const graffitiPatchSchema = z
+  .object({
+    text: z.string().min(1).optional(),
+    font: fontName.optional(),
+    color: cssColor.optional(),
+    size: z.number().min(8).max(300).optional(),
+    stroke_width: strokeWidth.optional(),
+    fill: cssColor.optional(),
+    line_cap: z.enum(LINE_CAPS).optional(),
+    line_join: z.enum(LINE_JOINS).optional(),
+    position: positionSchema.optional(),
+    dimensions: dimensionsSchema.optional(),
+    rotation: z.number().min(-360).max(360).optional(),
+    opacity: z.number().min(0).max(1).optional(),
+    layer: z.enum(LAYERS).optional(),
+    z_index: z.number().int().optional(),
+    stroke: strokeSchema.nullable().optional(),
+    shadow: shadowSchema.nullable().optional(),
+    letter_spacing: letterSpacing.nullable().optional(),
+    align: z.enum(TEXT_ALIGNS).nullable().optional(),
+    gradient: gradientSchema.nullable().optional(),
+    effect: z.enum(TEXT_EFFECTS).nullable().optional()
+  })
+  .strict();
+
+export type SprayTextArgs = z.infer<z.ZodObject<typeof sprayTextSchema>>;
+export type SprayImageArgs = z.infer<z.ZodObject<typeof sprayImageSchema>>;
+export type PathStyleArgs = z.infer<z.ZodObject<typeof pathStyleSchema>>;
+export type SprayPathArgs = z.infer<z.ZodObject<typeof sprayPathSchema>>;
+export type SprayShapeArgs = z.infer<z.ZodObject<typeof sprayShapeSchema>>;
+export type BatchItemArgs = z.infer<typeof batchItemSchema>;
+export type GraffitiPatchArgs = z.infer<typeof graffitiPatchSchema>;
+
+/** Which fields arrived as 0-1 fractions and were scaled up to percentages. */
+export type NormalizedFields = {
+  position: boolean;
+  dimensions: boolean;
+};
+
+export const NOT_NORMALIZED: NormalizedFields = { position: false, dimensions: false };
+
+export function normalizePercentPair(
+  first: number,
+  second: number
+): { first: number; second: number; normalized: boolean } {
+  const fractionRange = (value: number) => value >= 0 && value < 1;
+  const shouldNormalize = fractionRange(first) && fractionRange(second);
+
+  if (!shouldNormalize) {
+    return { first, second, normalized: false };
+  }
+
+  return {
+    first: first * 100,
+    second: second * 100,
+    normalized: true
+  };
+}
+
+export function toTextShadow(shadow: z.infer<typeof shadowSchema>): TextShadow {
+  return { color: shadow.color, offsetX: shadow.offset_x, offsetY: shadow.offset_y, blur: shadow.blur };
+}
+
+/** Turns snake_case patch arguments into a GraffitiPatch, normalizing 0-1 fractions to percentages. */
+export function toGraffitiPatch(args: GraffitiPatchArgs): { patch: GraffitiPatch; normalized: NormalizedFields } {
+  const { z_index, letter_spacing, shadow, stroke_width, line_cap, line_join, ...fields } = args;
+  const patch: GraffitiPatch = {
+    ...fields,
+    ...(z_index !== undefined && { zIndex: z_index }),
+    ...(stroke_width !== undefined && { strokeWidth: stroke_width }),
+    ...(line_cap !== undefined && { lineCap: line_cap }),
+    ...(line_join !== undefined && { lineJoin: line_join }),
+    ...(letter_spacing !== undefined && { letterSpacing: letter_spacing }),
+    ...(shadow !== undefined && { shadow: shadow && toTextShadow(shadow) })
+  };
+  const normalized = { ...NOT_NORMALIZED };
+
+  if (args.position) {
+    const pair = normalizePercentPair(args.position.x, args.position.y);
+    patch.position = { x: pair.first, y: pair.second };
+    normalized.position = pair.normalized;
+  }
+
+  if (args.dimensions) {
+    const pair = normalizePercentPair(args.dimensions.width, args.dimensions.height);
+    patch.dimensions = { width: pair.first, height: pair.second };
+    normalized.dimensions = pair.normalized;
+  }
+
+  return { patch, normalized };
+}
@@ -1,7 +1,23 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import sharp from "sharp";
+import { ImageSourceError, NotFoundError, ValidationError } from "./errors.ts";
+import { publishWallEvent } from "./events.ts";
+import { registerBundledFonts } from "./font-config.ts";
+import { DEFAULT_LAYER, sortByStacking } from "./layers.ts";
+import type { Layer } from "./layers.ts";
+import { pathGeometry, pathItemSvg, reshapePath } from "./paths.ts";
+import type { LineCap, LineJoin } from "./paths.ts";
+import { downloadRemoteImage } from "./remote-images.ts";
+import { isDefaultVariant, renderSnapshotVariant, variantDigest } from "./snapshot-variants.ts";
+import type { SnapshotFormat, SnapshotVariantOptions } from "./snapshot-variants.ts";
+import { getGraffitiStore } from "./store.ts";
+import { TEXT_STYLE_FIELDS, textItemSvg } from "./text-style.ts";
+import type { TextStyle } from "./text-style.ts";
+import type { TimeRange } from "./store.ts";
+import { DEFAULT_WALL_ID, requireWall } from "./walls.ts";
+import type { Wall } from "./walls.ts";
 
 export type Position = {
   x: number;
@@ -21,10 +37,18 @@ export type GraffitiImage = {
   dimensions: Dimensions;
   rotation: number;
   opacity: number;
+  layer: Layer;
+  zIndex: number;
+  status: GraffitiStatus;
+  /** Client name of the API key that sprayed the item. */
+  author: string;
+  /** Shared by the items of one spray_batch, which can be moved and erased together. */
+  groupId?: string;
   createdAt: string;
+  updatedAt: string;
 };
 
-export type GraffitiText = {
+export type GraffitiText = TextStyle & {
   id: string;
   type: "text";
   text: string;
@@ -34,78 +58,887 @@ export type GraffitiText = {
   size: number;
   rotation: number;
   opacity: number;
+  layer: Layer;
+  zIndex: number;
+  status: GraffitiStatus;
+  author: string;
+  groupId?: string;
   createdAt: string;
+  updatedAt: string;
 };
 
-export type GraffitiItem = GraffitiImage | GraffitiText;
+/** A vector stroke or shape; all coordinates are wall percentages. */
+export type GraffitiPath = {
+  id: string;
+  type: "path";
+  /** SVG path data, in wall percentages on both axes. */
+  d: string;
+  /** Stroke color. */
+  color: string;
+  /** Stroke width as a percentage of the wall's width. */
+  strokeWidth: number;
+  /** A color, or "none" for an open stroke. */
+  fill: string;
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  /** Centre of the path's bounding box, kept in sync with d. */
+  position: Position;
+  /** Size of the path's bounding box, kept in sync with d. */
+  dimensions: Dimensions;
+  rotation: number;
+  opacity: number;
+  layer: Layer;
+  zIndex: number;
+  status: GraffitiStatus;
+  author: string;
+  groupId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type GraffitiItem = GraffitiImage | GraffitiText | GraffitiPath;
+
+export type GraffitiType = GraffitiItem["type"];
+
+/** Pending items are stored but stay off the public wall until a moderator approves them. */
+export type GraffitiStatus = "approved" | "pending";
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type GraffitiFilter = TimeRange & {
+  type?: GraffitiType;
+  region?: Rect;
+  groupId?: string;
+};
+
+/** Style fields set to null are removed from the item. */
+export type GraffitiPatch = Partial<
+  Pick<
+    GraffitiText,
+    "text" | "font" | "color" | "size" | "position" | "rotation" | "opacity" | "layer" | "zIndex"
+  >
+> &
+  Partial<Pick<GraffitiImage, "dimensions">> &
+  Partial<Pick<GraffitiPath, "strokeWidth" | "fill" | "lineCap" | "lineJoin">> & {
+    [K in keyof TextStyle]?: TextStyle[K] | null;
+  };
+
+const COMMON_PATCH_FIELDS = ["position", "rotation", "opacity", "layer", "zIndex"] as const;
+const PATCH_FIELDS: Record<GraffitiType, readonly string[]> = {
+  text: [...COMMON_PATCH_FIELDS, "text", "font", "color", "size", ...TEXT_STYLE_FIELDS],
+  image: [...COMMON_PATCH_FIELDS, "dimensions"],
+  path: [...COMMON_PATCH_FIELDS, "dimensions", "color", "strokeWidth", "fill", "lineCap", "lineJoin"]
+};
 
-const DATA_FILE = path.join(process.cwd(), "data", "graffiti.json");
-const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
+export const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
 const PUBLIC_DIR = path.join(process.cwd(), "public");
-const SNAPSHOT_DIR = path.join(UPLOAD_DIR, "snapshots");
+export const SNAPSHOT_DIR = path.join(UPLOAD_DIR, "snapshots");
 const BACKGROUND_CANDIDATES = ["leftys-bg.png", "bathroom-wall.jpg", "bathroom-wall.png"];
+const MAX_STORED_IMAGE_DIMENSION = 2048;
+const MAX_STORED_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_STORED_IMAGE_INPUT_PIXELS = 40_000_000;
+const STORABLE_IMAGE_FORMATS: string[] = ["png", "jpeg", "webp", "gif", "avif", "heif", "tiff"];
 
-async function ensureDataFile(): Promise<void> {
-  await fs.mkdir(path.dirname(DATA_FILE), { recursive: true });
+export async function getGraffiti(
+  wallId: string = DEFAULT_WALL_ID,
+  range?: TimeRange
+): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+  const items = await readWallItems(wallId, range);
+  return items.filter((item) => item.status === "approved");
+}
 
-  try {
-    await fs.access(DATA_FILE);
-  } catch {
-    await fs.writeFile(DATA_FILE, "[]", "utf8");
+async function readWallItems(wallId: string, range?: TimeRange): Promise<GraffitiItem[]> {
+  const items = await getGraffitiStore(wallId).list(range);
+  return sortByStacking(items);
+}
+
+/** Counts every stored item on a wall, including ones still pending moderation. */
+export async function countWallItems(wallId: string = DEFAULT_WALL_ID): Promise<number> {
+  await requireWall(wallId);
+  const items = await getGraffitiStore(wallId).list();
+  return items.length;
+}
+
+/** Every stored item on a wall, whatever its moderation status, in stacking order. */
+export async function getAllGraffiti(wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+  return readWallItems(wallId);
+}
+
+/** Looks up one item by id, whatever its moderation status. */
+export async function findGraffitiItem(id: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem | null> {
+  await requireWall(wallId);
+  const items = await readWallItems(wallId);
+  return items.find((item) => item.id === id) ?? null;
+}
+
+/** Items waiting for moderation, oldest first. */
+export async function getPendingGraffiti(wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+  const items = await readWallItems(wallId);
+  return items
+    .filter((item) => item.status === "pending")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function topZIndex(items: GraffitiItem[], layer: Layer): number {
+  return items
+    .filter((item) => item.layer === layer)
+    .reduce((top, item) => Math.max(top, item.zIndex), 0);
+}
+
+function bottomZIndex(items: GraffitiItem[], layer: Layer): number {
+  return items
+    .filter((item) => item.layer === layer)
+    .reduce((bottom, item) => Math.min(bottom, item.zIndex), 0);
+}
+
+function isInsideRect(position: Position, rect: Rect): boolean {
+  return (
+    position.x >= rect.x &&
+    position.x <= rect.x + rect.width &&
+    position.y >= rect.y &&
+    position.y <= rect.y + rect.height
+  );
+}
+
+/** Lists a wall's items, optionally narrowed by type, group, time range and a region their position falls in. */
+export async function listGraffiti(
+  filter: GraffitiFilter = {},
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem[]> {
+  const items = await getGraffiti(wallId, { since: filter.since, until: filter.until });
+  return items.filter((item) => {
+    if (filter.type && item.type !== filter.type) {
+      return false;
+    }
+
+    if (filter.groupId && item.groupId !== filter.groupId) {
+      return false;
+    }
+
+    return !filter.region || isInsideRect(item.position, filter.region);
+  });
+}
+
+// Text extents and rotated boxes are estimated on the default background, where a
+// character is roughly 0.6em wide and a line 1em tall. x and y percentages are
+// different lengths on a wall that is not square, so rotation happens in its pixels.
+const REFERENCE_WALL = { width: 1536, height: 1024 };
+const CHAR_WIDTH_EM = 0.6;
+const OCCUPANCY_CELLS = 100;
+// Where the unrotated box's centre sits relative to a text item's position, in box widths.
+const TEXT_ALIGN_SHIFT = { left: 0.5, center: 0, right: -0.5 } as const;
+
+type PlacementInput =
+  | Pick<GraffitiText, "type" | "text" | "size" | "letterSpacing" | "align" | "position" | "rotation">
+  | Pick<GraffitiImage | GraffitiPath, "type" | "position" | "dimensions" | "rotation">;
+
+/** Summed-area table over a grid of 1%-square cells, counting cells some item covers. */
+export type OccupancyMap = {
+  sums: Int32Array;
+};
+
+export type FreeSpot = {
+  /** Centre of the spot. */
+  position: Position;
+  rect: Rect;
+  /** False when nothing fits without overlap; the spot is then the least covered one. */
+  free: boolean;
+  /** Share of the spot's cells already covered, 0-1. */
+  covered: number;
+};
+
+export type Placement = {
+  position: Position;
+  moved: boolean;
+  free: boolean;
+};
+
+export type Overlap = {
+  ids: [string, string];
+  /** Intersection of the two items' bounding boxes, in square percent. */
+  area: number;
+};
+
+/** Rough size of a text item before rotation, in wall percentages. */
+export function estimateTextDimensions(text: string, size: number, letterSpacing = 0): Dimensions {
+  const lines = text.split(/\r?\n/);
+  const longestLine = Math.max(...lines.map((line) => line.length));
+  const width = ((longestLine * (size * CHAR_WIDTH_EM + letterSpacing)) / REFERENCE_WALL.width) * 100;
+  const height = ((lines.length * size) / REFERENCE_WALL.height) * 100;
+  return { width: Math.min(100, width), height: Math.min(100, height) };
+}
+
+/** Axis-aligned box around an item after rotation, in wall percentages. */
+export function itemBounds(item: PlacementInput): Rect {
+  const size =
+    item.type === "text" ? estimateTextDimensions(item.text, item.size, item.letterSpacing) : item.dimensions;
+  const shiftX = item.type === "text" ? TEXT_ALIGN_SHIFT[item.align ?? "center"] * size.width : 0;
+  const radians = (item.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  // Items rotate around their position, so rotate the corners in reference pixels around it.
+  for (const [dx, dy] of [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]]) {
+    const x = percentToPixels(shiftX + dx * size.width, REFERENCE_WALL.width);
+    const y = percentToPixels(dy * size.height, REFERENCE_WALL.height);
+    xs.push(((x * cos - y * sin) / REFERENCE_WALL.width) * 100);
+    ys.push(((x * sin + y * cos) / REFERENCE_WALL.height) * 100);
   }
+
+  const left = item.position.x + Math.min(...xs);
+  const top = item.position.y + Math.min(...ys);
+  return {
+    x: left,
+    y: top,
+    width: item.position.x + Math.max(...xs) - left,
+    height: item.position.y + Math.max(...ys) - top
+  };
 }
 
-export async function getGraffiti(): Promise<GraffitiItem[]> {
-  await ensureDataFile();
+function clampCell(value: number): number {
+  return Math.min(OCCUPANCY_CELLS, Math.max(0, value));
+}
 
-  const raw = await fs.readFile(DATA_FILE, "utf8");
-  const parsed = JSON.parse(raw) as GraffitiItem[];
-  return parsed.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+/** The half-open cell range [x0, x1) x [y0, y1) a rect touches, grown by margin percent. */
+function rectCells(rect: Rect, margin = 0): [number, number, number, number] {
+  return [
+    clampCell(Math.floor(rect.x - margin)),
+    clampCell(Math.floor(rect.y - margin)),
+    clampCell(Math.ceil(rect.x + rect.width + margin)),
+    clampCell(Math.ceil(rect.y + rect.height + margin))
+  ];
 }
 
-type NewGraffitiImage = Omit<GraffitiImage, "id" | "createdAt">;
-type NewGraffitiText = Omit<GraffitiText, "id" | "createdAt">;
-type NewGraffitiItem = NewGraffitiImage | NewGraffitiText;
+/** Marks the cells covered by each item's bounds, grown by margin percent on every side. */
+export function buildOccupancyMap(items: PlacementInput[], margin = 0): OccupancyMap {
+  const size = OCCUPANCY_CELLS + 1;
+  const cells = new Uint8Array(OCCUPANCY_CELLS * OCCUPANCY_CELLS);
+
+  for (const item of items) {
+    const [x0, y0, x1, y1] = rectCells(itemBounds(item), margin);
+    for (let y = y0; y < y1; y += 1) {
+      cells.fill(1, y * OCCUPANCY_CELLS + x0, y * OCCUPANCY_CELLS + x1);
+    }
+  }
 
-export async function addGraffiti(item: NewGraffitiImage): Promise<GraffitiImage>;
-export async function addGraffiti(item: NewGraffitiText): Promise<GraffitiText>;
-export async function addGraffiti(item: NewGraffitiItem): Promise<GraffitiItem> {
-  const next: GraffitiItem =
-    item.type === "image"
-      ? {
-          ...item,
-          id: randomUUID(),
-          createdAt: new Date().toISOString()
-        }
-      : {
-          ...item,
-          id: randomUUID(),
-          createdAt: new Date().toISOString()
-        };
+  const sums = new Int32Array(size * size);
+  for (let y = 1; y < size; y += 1) {
+    for (let x = 1; x < size; x += 1) {
+      sums[y * size + x] =
+        cells[(y - 1) * OCCUPANCY_CELLS + x - 1] +
+        sums[(y - 1) * size + x] +
+        sums[y * size + x - 1] -
+        sums[(y - 1) * size + x - 1];
+    }
+  }
 
-  const existing = await getGraffiti();
-  existing.push(next);
+  return { sums };
+}
 
-  await fs.writeFile(DATA_FILE, JSON.stringify(existing, null, 2), "utf8");
-  return next;
+/** Covered cells in the half-open cell range [x0, x1) x [y0, y1). */
+function coveredCells(map: OccupancyMap, x0: number, y0: number, x1: number, y1: number): number {
+  const size = OCCUPANCY_CELLS + 1;
+  return map.sums[y1 * size + x1] - map.sums[y0 * size + x1] - map.sums[y1 * size + x0] + map.sums[y0 * size + x0];
+}
+
+/**
+ * Finds the spot for a width x height box (wall percentages) that no item
+ * covers, nearest to near (default: the middle of the wall).
+ */
+export function findFreeSpot(
+  map: OccupancyMap,
+  dimensions: Dimensions,
+  near: Position = { x: 50, y: 50 }
+): FreeSpot {
+  const width = Math.min(100, dimensions.width);
+  const height = Math.min(100, dimensions.height);
+  const widthCells = Math.max(1, Math.ceil(width));
+  const heightCells = Math.max(1, Math.ceil(height));
+  let best: (FreeSpot & { distance: number }) | null = null;
+
+  for (let y0 = 0; y0 + heightCells <= OCCUPANCY_CELLS; y0 += 1) {
+    for (let x0 = 0; x0 + widthCells <= OCCUPANCY_CELLS; x0 += 1) {
+      const covered = coveredCells(map, x0, y0, x0 + widthCells, y0 + heightCells) / (widthCells * heightCells);
+      const position = { x: x0 + width / 2, y: y0 + height / 2 };
+      const distance = Math.hypot(
+        percentToPixels(position.x - near.x, REFERENCE_WALL.width),
+        percentToPixels(position.y - near.y, REFERENCE_WALL.height)
+      );
+
+      if (!best || covered < best.covered || (covered === best.covered && distance < best.distance)) {
+        best = { position, rect: { x: x0, y: y0, width, height }, free: covered === 0, covered, distance };
+      }
+    }
+  }
+
+  const { distance: _distance, ...spot } = best!;
+  return spot;
+}
+
+/**
+ * Keeps a new item where it was asked to go if that spot is free, and
+ * otherwise moves it to the nearest spot its bounds fit without overlap.
+ */
+export function placeAvoidingOverlap(items: GraffitiItem[], candidate: PlacementInput, margin = 0): Placement {
+  const map = buildOccupancyMap(items, margin);
+  const bounds = itemBounds(candidate);
+  if (coveredCells(map, ...rectCells(bounds)) === 0) {
+    return { position: candidate.position, moved: false, free: true };
+  }
+
+  const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  const spot = findFreeSpot(map, bounds, center);
+  return {
+    position: {
+      x: Number((candidate.position.x + spot.position.x - center.x).toFixed(2)),
+      y: Number((candidate.position.y + spot.position.y - center.y).toFixed(2))
+    },
+    moved: true,
+    free: spot.free
+  };
+}
+
+/** Pairs of items whose bounding boxes intersect. */
+export function findOverlaps(items: GraffitiItem[]): Overlap[] {
+  const bounds = items.map((item) => itemBounds(item));
+  const overlaps: Overlap[] = [];
+
+  for (let first = 0; first < items.length; first += 1) {
+    for (let second = first + 1; second < items.length; second += 1) {
+      const a = bounds[first];
+      const b = bounds[second];
+      const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+      const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+      if (width > 0 && height > 0) {
+        overlaps.push({ ids: [items[first].id, items[second].id], area: Number((width * height).toFixed(2)) });
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+// Where findFreeSpots looks, in turn: the middle first, then around the wall,
+// so the spots it returns are spread out rather than packed around the centre.
+const FREE_SPOT_ANCHORS: Position[] = [
+  { x: 50, y: 50 },
+  { x: 25, y: 25 },
+  { x: 75, y: 25 },
+  { x: 25, y: 75 },
+  { x: 75, y: 75 },
+  { x: 50, y: 20 },
+  { x: 50, y: 80 },
+  { x: 20, y: 50 },
+  { x: 80, y: 50 }
+];
+
+/**
+ * Up to count free spots for a width x height box (at most one per anchor).
+ * Each spot found is marked taken, margin included, before looking for the
+ * next, so the spots never overlap one another. Stops early once nothing fits.
+ */
+export function findFreeSpots(items: PlacementInput[], dimensions: Dimensions, count: number, margin = 0): FreeSpot[] {
+  const taken: PlacementInput[] = [...items];
+  const spots: FreeSpot[] = [];
+
+  for (const anchor of FREE_SPOT_ANCHORS.slice(0, count)) {
+    const spot = findFreeSpot(buildOccupancyMap(taken, margin), dimensions, anchor);
+    if (!spot.free) {
+      break;
+    }
+    spots.push(spot);
+    taken.push({ type: "image", position: spot.position, dimensions, rotation: 0 });
+  }
+
+  return spots;
+}
+
+export type TextSpot = FreeSpot & {
+  /** spray_text size that fits the spot. */
+  size: number;
+};
+
+/**
+ * Finds room for a line of text near near, trying each size from largest to
+ * smallest until one fits without overlap. When none does, returns the least
+ * crowded spot at the smallest size.
+ */
+export function findTextSpot(
+  items: PlacementInput[],
+  text: string,
+  sizes: number[],
+  near?: Position,
+  margin = 0
+): TextSpot {
+  const map = buildOccupancyMap(items, margin);
+  let spot: TextSpot | null = null;
+
+  for (const size of [...sizes].sort((a, b) => b - a)) {
+    spot = { ...findFreeSpot(map, estimateTextDimensions(text, size), near), size };
+    if (spot.free) {
+      break;
+    }
+  }
+
+  return spot!;
+}
+
+type NewGraffiti<T extends GraffitiItem> = Omit<
+  T,
+  "id" | "layer" | "zIndex" | "status" | "createdAt" | "updatedAt"
+> &
+  Partial<Pick<T, "layer" | "zIndex" | "status">>;
+export type NewGraffitiImage = NewGraffiti<GraffitiImage>;
+export type NewGraffitiText = NewGraffiti<GraffitiText>;
+export type NewGraffitiPath = NewGraffiti<GraffitiPath>;
+export type NewGraffitiItem = NewGraffitiImage | NewGraffitiText | NewGraffitiPath;
+
+export async function addGraffiti(item: NewGraffitiImage, wallId?: string): Promise<GraffitiImage>;
+export async function addGraffiti(item: NewGraffitiText, wallId?: string): Promise<GraffitiText>;
+export async function addGraffiti(item: NewGraffitiPath, wallId?: string): Promise<GraffitiPath>;
+export async function addGraffiti(
+  item: NewGraffitiItem,
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem> {
+  await requireWall(wallId);
+
+  // Without an explicit zIndex, new items stack on top of their layer.
+  const layer = item.layer ?? DEFAULT_LAYER;
+  const zIndex = item.zIndex ?? topZIndex(await getGraffiti(wallId), layer) + 1;
+  const status = item.status ?? "approved";
+  const now = new Date().toISOString();
+  const next: GraffitiItem = {
+    ...item,
+    id: randomUUID(),
+    layer,
+    zIndex,
+    status,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const saved = await getGraffitiStore(wallId).add(next);
+  if (saved.status === "approved") {
+    publishWallEvent({ type: "add", wallId, item: saved });
+  }
+  return saved;
+}
+
+/**
+ * Adds several items in a single store write, so they appear together. They
+ * share one createdAt and a fresh groupId; items without a zIndex stack on top
+ * of their layer in the order given.
+ */
+export async function addGraffitiBatch(
+  items: NewGraffitiItem[],
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+
+  const existing = await getGraffiti(wallId);
+  const tops = new Map<Layer, number>();
+  const groupId = randomUUID();
+  const now = new Date().toISOString();
+  const batch = items.map((item): GraffitiItem => {
+    const layer = item.layer ?? DEFAULT_LAYER;
+    const top = tops.get(layer) ?? topZIndex(existing, layer);
+    const zIndex = item.zIndex ?? top + 1;
+    tops.set(layer, Math.max(top, zIndex));
+
+    return {
+      ...item,
+      id: randomUUID(),
+      layer,
+      zIndex,
+      status: item.status ?? "approved",
+      groupId,
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+
+  const saved = await getGraffitiStore(wallId).addMany(batch);
+  for (const item of saved) {
+    if (item.status === "approved") {
+      publishWallEvent({ type: "add", wallId, item });
+    }
+  }
+  return saved;
+}
+
+/**
+ * Writes complete items, such as ones read back from a wall archive, keeping
+ * their ids, stacking and timestamps. In "replace" mode everything already on
+ * the wall is swapped out in the same write. Returns the items replaced.
+ */
+export async function restoreGraffiti(
+  items: GraffitiItem[],
+  wallId: string = DEFAULT_WALL_ID,
+  mode: "merge" | "replace" = "merge"
+): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+
+  const store = getGraffitiStore(wallId);
+  const replaced = mode === "replace" ? await store.replaceAll(items) : [];
+  if (mode === "merge") {
+    await store.addMany(items);
+  }
+
+  for (const item of replaced) {
+    if (item.status !== "pending") {
+      publishWallEvent({ type: "remove", wallId, id: item.id });
+    }
+  }
+  for (const item of items) {
+    if (item.status === "approved") {
+      publishWallEvent({ type: "add", wallId, item });
+    }
+  }
+  return replaced;
+}
+
+/** The item as it would look with patch applied; throws if the patch sets fields the item's type lacks. */
+export function applyPatch(item: GraffitiItem, patch: GraffitiPatch): GraffitiItem {
+  const allowedFields = PATCH_FIELDS[item.type];
+  const invalid = Object.keys(patch).filter((field) => !allowedFields.includes(field));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Cannot set ${invalid.join(", ")} on ${item.type} graffiti ${item.id}.`);
+  }
+
+  const updatedAt = new Date().toISOString();
+  if (item.type === "text") {
+    const { dimensions: _dimensions, ...textPatch } = patch;
+    const patched: Record<string, unknown> = { ...item, ...textPatch, updatedAt };
+    for (const field of TEXT_STYLE_FIELDS) {
+      if (patched[field] === null) {
+        delete patched[field];
+      }
+    }
+
+    return patched as GraffitiText;
+  }
+
+  if (item.type === "path") {
+    // Moving or resizing rewrites the path data; the stored box is then recomputed from it.
+    const { position, dimensions, ...pathPatch } = patch;
+    const d = position || dimensions ? reshapePath(item, position, dimensions) : item.d;
+    return { ...item, ...(pathPatch as Partial<GraffitiPath>), d, ...pathGeometry(d), updatedAt };
+  }
+
+  const { text: _text, font: _font, color: _color, size: _size, ...imagePatch } = patch;
+  return { ...item, ...imagePatch, updatedAt };
+}
+
+export async function updateGraffiti(
+  id: string,
+  patch: GraffitiPatch,
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem | null> {
+  await requireWall(wallId);
+
+  const updated = await getGraffitiStore(wallId).update(id, (item) => applyPatch(item, patch));
+  if (updated?.status === "approved") {
+    publishWallEvent({ type: "update", wallId, item: updated });
+  }
+
+  return updated;
+}
+
+async function restack(
+  id: string,
+  wallId: string,
+  pickZIndex: (items: GraffitiItem[], layer: Layer) => number
+): Promise<GraffitiItem | null> {
+  const items = await getGraffiti(wallId);
+  const target = items.find((item) => item.id === id);
+  if (!target) {
+    return null;
+  }
+
+  const others = items.filter((item) => item.id !== id);
+  return updateGraffiti(id, { zIndex: pickZIndex(others, target.layer) }, wallId);
+}
+
+/** Moves an item above everything else in its layer. */
+export function bringToFront(id: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem | null> {
+  return restack(id, wallId, (items, layer) => topZIndex(items, layer) + 1);
+}
+
+/** Moves an item below everything else in its layer. */
+export function sendToBack(id: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem | null> {
+  return restack(id, wallId, (items, layer) => bottomZIndex(items, layer) - 1);
+}
+
+export async function eraseGraffiti(
+  id: string,
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem | null> {
+  await requireWall(wallId);
+
+  const removed = await getGraffitiStore(wallId).remove(id);
+  if (removed && removed.status !== "pending") {
+    publishWallEvent({ type: "remove", wallId, id });
+  }
+
+  return removed;
+}
+
+async function groupItems(groupId: string, wallId: string): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+  const items = await readWallItems(wallId);
+  return items.filter((item) => item.groupId === groupId);
+}
+
+/**
+ * Shifts every item of a batch by the same offset in wall percent, in one
+ * write. Throws without moving anything if an item would leave the wall.
+ */
+export async function moveGroup(
+  groupId: string,
+  offset: Position,
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem[]> {
+  const members = await groupItems(groupId, wallId);
+  if (members.length === 0) {
+    throw new NotFoundError(`No graffiti group ${groupId} on wall "${wallId}".`);
+  }
+
+  const shift = (position: Position): Position => ({
+    x: Number((position.x + offset.x).toFixed(2)),
+    y: Number((position.y + offset.y).toFixed(2))
+  });
+  const offWall = members.find((item) => {
+    const next = shift(item.position);
+    return next.x < 0 || next.x > 100 || next.y < 0 || next.y > 100;
+  });
+  if (offWall) {
+    throw new ValidationError(`Moving group ${groupId} by (${offset.x}, ${offset.y}) would push ${offWall.id} off the wall.`);
+  }
+
+  const moved = await getGraffitiStore(wallId).updateMany(
+    members.map((item) => item.id),
+    (item) => applyPatch(item, { position: shift(item.position) })
+  );
+  for (const item of moved) {
+    if (item.status === "approved") {
+      publishWallEvent({ type: "update", wallId, item });
+    }
+  }
+  return moved;
+}
+
+/** Erases every item of a batch in one write. */
+export async function eraseGroup(groupId: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem[]> {
+  const members = await groupItems(groupId, wallId);
+  const removed = await getGraffitiStore(wallId).removeMany(members.map((item) => item.id));
+  for (const item of removed) {
+    if (item.status !== "pending") {
+      publishWallEvent({ type: "remove", wallId, id: item.id });
+    }
+  }
+  return removed;
+}
+
+/** Erases every item whose position falls inside the rectangle. */
+export async function eraseRegion(
+  rect: Rect,
+  wallId: string = DEFAULT_WALL_ID
+): Promise<GraffitiItem[]> {
+  const targets = await listGraffiti({ region: rect }, wallId);
+  const erased: GraffitiItem[] = [];
+
+  for (const target of targets) {
+    const removed = await eraseGraffiti(target.id, wallId);
+    if (removed) {
+      erased.push(removed);
+    }
+  }
+
+  return erased;
+}
+
+/**
+ * The pending item with this id and, when it was sprayed as part of a batch,
+ * every other pending item in its group, so moderation never lets through half
+ * a piece.
+ */
+async function pendingWithGroup(id: string, wallId: string): Promise<GraffitiItem[]> {
+  const pending = await getPendingGraffiti(wallId);
+  const item = pending.find((candidate) => candidate.id === id);
+  if (!item) {
+    return [];
+  }
+
+  return item.groupId ? pending.filter((candidate) => candidate.groupId === item.groupId) : [item];
+}
+
+/** Puts a pending item, together with the rest of its group, on the wall; empty if id is not pending. */
+export async function approveGraffiti(id: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+
+  const pending = await pendingWithGroup(id, wallId);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const updatedAt = new Date().toISOString();
+  const approved = await getGraffitiStore(wallId).updateMany(
+    pending.map((item) => item.id),
+    (item) => ({ ...item, status: "approved", updatedAt })
+  );
+  for (const item of approved) {
+    publishWallEvent({ type: "add", wallId, item });
+  }
+
+  return approved;
+}
+
+/**
+ * Discards a pending item together with the rest of its group. Items already
+ * on the wall are erased with eraseGraffiti instead.
+ */
+export async function rejectGraffiti(id: string, wallId: string = DEFAULT_WALL_ID): Promise<GraffitiItem[]> {
+  await requireWall(wallId);
+
+  const pending = await pendingWithGroup(id, wallId);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  return getGraffitiStore(wallId).removeMany(pending.map((item) => item.id));
+}
+
+/** Decodes a base64 string or data URL; the declared MIME type is ignored in favour of sniffing. */
+export function decodeImageBlob(base64OrDataUrl: string): Buffer {
+  const dataUrlMatch = base64OrDataUrl.match(/^data:[^,;]*;base64,(.*)$/s);
+  const base64 = (dataUrlMatch?.[1] ?? base64OrDataUrl).replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(base64)) {
+    throw new ImageSourceError("Image refused: image_blob is not valid base64.");
+  }
+
+  const bytes = Buffer.from(base64, "base64");
+  if (bytes.length === 0) {
+    throw new ImageSourceError("Image refused: image_blob is empty.");
+  }
+
+  return bytes;
+}
+
+/**
+ * Sniffs image bytes with sharp and throws a message saying why they cannot be
+ * stored: too large, unreadable, vector or another non-raster format.
+ */
+export async function assertStorableImage(bytes: Buffer): Promise<void> {
+  if (bytes.length > MAX_STORED_IMAGE_BYTES) {
+    throw new ImageSourceError(`Image refused: ${bytes.length} bytes is over the ${MAX_STORED_IMAGE_BYTES}-byte limit.`);
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes, { limitInputPixels: MAX_STORED_IMAGE_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new ImageSourceError("Image refused: the data is not a readable image.");
+  }
+
+  if (metadata.format === "svg") {
+    throw new ImageSourceError(
+      `Image refused: SVG is not accepted; send a raster image (${STORABLE_IMAGE_FORMATS.join(", ")}).`
+    );
+  }
+
+  if (!metadata.format || !STORABLE_IMAGE_FORMATS.includes(metadata.format)) {
+    throw new ImageSourceError(
+      `Image refused: format ${metadata.format ?? "unknown"} is not accepted (accepted: ${STORABLE_IMAGE_FORMATS.join(", ")}).`
+    );
+  }
+
+  const pixels = (metadata.width ?? 0) * (metadata.height ?? 0);
+  if (pixels === 0 || pixels > MAX_STORED_IMAGE_INPUT_PIXELS) {
+    throw new ImageSourceError(
+      `Image refused: ${metadata.width ?? 0}x${metadata.height ?? 0} pixels is outside the accepted size (up to ${MAX_STORED_IMAGE_INPUT_PIXELS} pixels).`
+    );
+  }
 }
 
 export async function saveImageBlob(base64OrDataUrl: string): Promise<string> {
+  return storeImage(decodeImageBlob(base64OrDataUrl));
+}
+
+/**
+ * Re-encodes a raster image as WebP under /public/uploads, applying its EXIF
+ * rotation, dropping metadata and capping its pixel dimensions. Files are named
+ * by content hash, so the same image is stored once however often it is sprayed.
+ */
+export async function storeImage(bytes: Buffer): Promise<string> {
+  await assertStorableImage(bytes);
   await fs.mkdir(UPLOAD_DIR, { recursive: true });
 
-  const dataUrlMatch = base64OrDataUrl.match(/^data:image\/(\w+);base64,(.+)$/);
-  const ext = dataUrlMatch?.[1] ?? "png";
-  const base64 = dataUrlMatch?.[2] ?? base64OrDataUrl;
+  const normalized = await sharp(bytes, { limitInputPixels: MAX_STORED_IMAGE_INPUT_PIXELS })
+    .rotate()
+    .resize({
+      width: MAX_STORED_IMAGE_DIMENSION,
+      height: MAX_STORED_IMAGE_DIMENSION,
+      fit: "inside",
+      withoutEnlargement: true
+    })
+    .webp({ quality: 90 })
+    .toBuffer();
+  const fileName = `${createHash("sha256").update(normalized).digest("hex")}.webp`;
+
+  return writeUpload(fileName, normalized);
+}
 
-  const fileName = `${randomUUID()}.${ext}`;
+/**
+ * Puts an upload read back from a wall archive in place. A file still named by
+ * the hash of its content, as storeImage names them, is kept byte for byte so
+ * it is not re-encoded on every round trip; anything else is stored afresh.
+ */
+export async function restoreUpload(fileName: string, bytes: Buffer): Promise<string> {
+  await assertStorableImage(bytes);
+
+  const digest = createHash("sha256").update(bytes).digest("hex");
+  if (fileName !== `${digest}.webp`) {
+    return storeImage(bytes);
+  }
+
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  return writeUpload(fileName, bytes);
+}
+
+async function writeUpload(fileName: string, bytes: Buffer): Promise<string> {
   const outPath = path.join(UPLOAD_DIR, fileName);
 
-  await fs.writeFile(outPath, Buffer.from(base64, "base64"));
+  try {
+    await fs.writeFile(outPath, bytes, { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+
+    // Mark the existing copy as fresh so upload GC leaves it alone until the item is saved.
+    const now = new Date();
+    await fs.utimes(outPath, now, now);
+  }
+
   return `/uploads/${fileName}`;
 }
 
 type SnapshotResult = {
+  wallId: string;
   imageUrl: string;
+  /** Where the rendered image lives on disk. */
+  filePath: string;
+  format: SnapshotFormat;
   width: number;
   height: number;
   itemCount: number;
@@ -118,18 +951,22 @@ function percentToPixels(value: number, size: number): number {
   return (value / 100) * size;
 }
 
-function escapeXml(value: string): string {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&apos;");
+function resolvePublicPath(publicUrl: string): string | null {
+  const publicRoot = path.resolve(PUBLIC_DIR);
+  const resolvedPath = path.resolve(PUBLIC_DIR, publicUrl.replace(/^\/+/, ""));
+  return resolvedPath.startsWith(`${publicRoot}${path.sep}`) ? resolvedPath : null;
 }
 
-async function resolveBackgroundPath(): Promise<string> {
-  for (const fileName of BACKGROUND_CANDIDATES) {
-    const filePath = path.join(PUBLIC_DIR, fileName);
+async function resolveBackgroundPath(wall: Wall): Promise<string> {
+  const candidates =
+    wall.id === DEFAULT_WALL_ID ? [wall.background, ...BACKGROUND_CANDIDATES] : [wall.background];
+
+  for (const candidate of candidates) {
+    const filePath = resolvePublicPath(candidate);
+    if (!filePath) {
+      continue;
+    }
+
     try {
       await fs.access(filePath);
       return filePath;
@@ -139,20 +976,72 @@ async function resolveBackgroundPath(): Promise<string> {
   }
 
   throw new Error(
-    `No background image found in /public. Expected one of: ${BACKGROUND_CANDIDATES.join(", ")}`
+    `No background image found for wall "${wall.id}" in /public. Expected one of: ${candidates.join(", ")}`
   );
 }
 
-async function loadImageSource(imageUrl: string): Promise<Buffer | null> {
+/** Reads a wall's background image, falling back like snapshots do for the default wall. */
+export async function loadWallBackground(wall: Wall): Promise<{ fileName: string; bytes: Buffer }> {
+  const filePath = await resolveBackgroundPath(wall);
+  return { fileName: path.basename(filePath), bytes: await fs.readFile(filePath) };
+}
+
+export type WallPalette = {
+  /** Dominant colour of the background image, as #rrggbb. */
+  background: string;
+  /** Whether dark or light paint stands out against the background. */
+  readableOn: "dark" | "light";
+  /** Colours already sprayed on the wall, most used first. */
+  colors: { color: string; count: number }[];
+};
+
+function toHex(channel: number): string {
+  return channel.toString(16).padStart(2, "0");
+}
+
+function paintColors(item: GraffitiItem): string[] {
+  switch (item.type) {
+    case "text":
+      return item.gradient?.colors ?? [item.color];
+    case "path":
+      return item.fill === "none" ? [item.color] : [item.color, item.fill];
+    case "image":
+      return [];
+  }
+}
+
+/** The colours on a wall: its background's dominant colour and what approved items already use. */
+export async function getWallPalette(wallId: string = DEFAULT_WALL_ID): Promise<WallPalette> {
+  const wall = await requireWall(wallId);
+  const { dominant } = await sharp((await loadWallBackground(wall)).bytes).stats();
+  const luminance = (0.2126 * dominant.r + 0.7152 * dominant.g + 0.0722 * dominant.b) / 255;
+
+  const counts = new Map<string, number>();
+  for (const item of await getGraffiti(wallId)) {
+    for (const color of paintColors(item)) {
+      const key = color.toLowerCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return {
+    background: `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`,
+    readableOn: luminance > 0.5 ? "dark" : "light",
+    colors: [...counts]
+      .map(([color, count]) => ({ color, count }))
+      .sort((a, b) => b.count - a.count)
+  };
+}
+
+export async function loadImageSource(imageUrl: string): Promise<Buffer | null> {
   const dataUrlMatch = imageUrl.match(/^data:image\/[a-zA-Z0-9.+-]+;base64,(.+)$/);
   if (dataUrlMatch) {
     return Buffer.from(dataUrlMatch[1], "base64");
   }
 
   if (imageUrl.startsWith("/")) {
-    const publicRoot = path.resolve(PUBLIC_DIR);
-    const resolvedPath = path.resolve(PUBLIC_DIR, imageUrl.replace(/^\/+/, ""));
-    if (!resolvedPath.startsWith(`${publicRoot}${path.sep}`)) {
+    const resolvedPath = resolvePublicPath(imageUrl);
+    if (!resolvedPath) {
       return null;
     }
 
@@ -163,15 +1052,10 @@ async function loadImageSource(imageUrl: string): Promise<Buffer | null> {
     }
   }
 
+  // Items sprayed before downloads were stored locally still point at their original host.
   if (/^https?:\/\//i.test(imageUrl)) {
     try {
-      const response = await fetch(imageUrl);
-      if (!response.ok) {
-        return null;
-      }
-
-      const bytes = await response.arrayBuffer();
-      return Buffer.from(bytes);
+      return await downloadRemoteImage(imageUrl);
     } catch {
       return null;
     }
@@ -183,36 +1067,24 @@ async function loadImageSource(imageUrl: string): Promise<Buffer | null> {
 function textOverlaySvg(item: GraffitiText, width: number, height: number): Buffer {
   const centerX = percentToPixels(item.position.x, width);
   const centerY = percentToPixels(item.position.y, height);
-  const lines = item.text.split(/\r?\n/);
-  const lineHeight = item.size;
-  const startY = centerY - ((lines.length - 1) * lineHeight) / 2;
-
-  const tspans = lines
-    .map((line, index) => {
-      const y = startY + index * lineHeight;
-      return `<tspan x="${centerX}" y="${y}">${escapeXml(line)}</tspan>`;
-    })
-    .join("");
 
   const svg = `
 <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
-  <g opacity="${item.opacity}" transform="rotate(${item.rotation} ${centerX} ${centerY})">
-    <text
-      text-anchor="middle"
-      font-family="${escapeXml(item.font)}"
-      font-size="${item.size}"
-      fill="${escapeXml(item.color)}"
-    >${tspans}</text>
+  <g opacity="${item.opacity}" transform="translate(${centerX} ${centerY}) rotate(${item.rotation})">
+    ${textItemSvg(item)}
   </g>
 </svg>`;
 
   return Buffer.from(svg);
 }
 
-export async function generateWallSnapshot(): Promise<SnapshotResult> {
-  const items = await getGraffiti();
+/**
+ * Cache key for a wall state. The timestamp alone misses erasures of older
+ * items, so the key also folds in a digest of every item's id and revision.
+ */
+export function snapshotKeyFor(items: GraffitiItem[]): string {
   const latestChangeMs = items.reduce<number | null>((latest, item) => {
-    const parsed = Date.parse(item.createdAt);
+    const parsed = Date.parse(item.updatedAt);
     if (!Number.isFinite(parsed)) {
       return latest;
     }
@@ -223,28 +1095,39 @@ export async function generateWallSnapshot(): Promise<SnapshotResult> {
 
     return latest;
   }, null);
-  const snapshotKey = latestChangeMs === null ? "empty" : String(latestChangeMs);
-  const fileName = `wall-snapshot-${snapshotKey}.png`;
-  const outPath = path.join(SNAPSHOT_DIR, fileName);
-  await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+  const revisionDigest = createHash("sha1")
+    .update(items.map((item) => `${item.id}@${item.updatedAt}`).join("\n"))
+    .digest("hex")
+    .slice(0, 10);
 
-  try {
-    await fs.access(outPath);
-    const meta = await sharp(outPath).metadata();
-    return {
-      imageUrl: `/uploads/snapshots/${fileName}`,
-      width: meta.width ?? 0,
-      height: meta.height ?? 0,
-      itemCount: items.length,
-      skippedImages: 0,
-      fromCache: true,
-      snapshotKey
-    };
-  } catch {
-    // No cached snapshot for this wall state; render a new one.
-  }
+  return latestChangeMs === null ? "empty" : `${latestChangeMs}-${revisionDigest}`;
+}
+
+/** Where a rendered file for a wall lives on disk and under /public. */
+export async function snapshotLocation(
+  wallId: string,
+  fileName: string
+): Promise<{ outPath: string; imageUrl: string }> {
+  const wallSnapshotDir = path.join(SNAPSHOT_DIR, wallId);
+  await fs.mkdir(wallSnapshotDir, { recursive: true });
+
+  return {
+    outPath: path.join(wallSnapshotDir, fileName),
+    imageUrl: `/uploads/snapshots/${wallId}/${fileName}`
+  };
+}
 
-  const backgroundPath = await resolveBackgroundPath();
+type RenderedWall = {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  skippedImages: number;
+};
+
+/** Composites items, in the order given, onto the wall's background as a PNG. */
+export async function renderWall(wall: Wall, items: GraffitiItem[]): Promise<RenderedWall> {
+  await registerBundledFonts();
+  const backgroundPath = await resolveBackgroundPath(wall);
   const backgroundBuffer = await fs.readFile(backgroundPath);
   const background = sharp(backgroundBuffer);
   const metadata = await background.metadata();
@@ -266,6 +1149,15 @@ export async function generateWallSnapshot(): Promise<SnapshotResult> {
       continue;
     }
 
+    if (item.type === "path") {
+      overlays.push({
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${pathItemSvg(item, width, height)}</svg>`
+        )
+      });
+      continue;
+    }
+
     const imageSource = await loadImageSource(item.imageUrl);
     if (!imageSource) {
       skippedImages += 1;
@@ -295,15 +1187,132 @@ export async function generateWallSnapshot(): Promise<SnapshotResult> {
     });
   }
 
-  const snapshotBuffer = await background.composite(overlays).png().toBuffer();
-  await fs.writeFile(outPath, snapshotBuffer);
+  const buffer = await background.composite(overlays).png().toBuffer();
+  return { buffer, width, height, skippedImages };
+}
+
+export type SnapshotOptions = SnapshotVariantOptions & {
+  /** Render the wall as it stood at this ISO timestamp instead of now. */
+  at?: string;
+};
+
+/**
+ * How many images a cached full-size render had to leave out, kept in a JSON
+ * file next to it since the PNG cannot say. Null when there is no such file,
+ * which callers treat as a cache miss.
+ */
+async function readSkippedImages(wallId: string, snapshotKey: string): Promise<number | null> {
+  const { outPath } = await snapshotLocation(wallId, `wall-snapshot-${snapshotKey}.json`);
+  try {
+    const info = JSON.parse(await fs.readFile(outPath, "utf8")) as { skippedImages?: unknown };
+    return typeof info.skippedImages === "number" ? info.skippedImages : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeSkippedImages(wallId: string, snapshotKey: string, skippedImages: number): Promise<void> {
+  const { outPath } = await snapshotLocation(wallId, `wall-snapshot-${snapshotKey}.json`);
+  await fs.writeFile(outPath, JSON.stringify({ skippedImages }));
+}
+
+/** The full-size PNG for a wall state, read from the snapshot cache or rendered into it. */
+async function loadBaseSnapshot(
+  wall: Wall,
+  items: GraffitiItem[],
+  snapshotKey: string
+): Promise<RenderedWall & { outPath: string; imageUrl: string; fromCache: boolean }> {
+  const { outPath, imageUrl } = await snapshotLocation(wall.id, `wall-snapshot-${snapshotKey}.png`);
+
+  const skippedImages = await readSkippedImages(wall.id, snapshotKey);
+  if (skippedImages !== null) {
+    try {
+      const buffer = await fs.readFile(outPath);
+      const meta = await sharp(buffer).metadata();
+      return {
+        buffer,
+        width: meta.width ?? 0,
+        height: meta.height ?? 0,
+        skippedImages,
+        outPath,
+        imageUrl,
+        fromCache: true
+      };
+    } catch {
+      // No cached snapshot for this wall state; render a new one.
+    }
+  }
+
+  const rendered = await renderWall(wall, items);
+  await fs.writeFile(outPath, rendered.buffer);
+  await writeSkippedImages(wall.id, snapshotKey, rendered.skippedImages);
+  return { ...rendered, outPath, imageUrl, fromCache: false };
+}
+
+export async function generateWallSnapshot(
+  wallId: string = DEFAULT_WALL_ID,
+  options: SnapshotOptions = {}
+): Promise<SnapshotResult> {
+  const wall = await requireWall(wallId);
+  const items = await getGraffiti(wallId, { until: options.at });
+  const baseKey = snapshotKeyFor(items);
+
+  if (isDefaultVariant(options)) {
+    const base = await loadBaseSnapshot(wall, items, baseKey);
+    return {
+      wallId,
+      imageUrl: base.imageUrl,
+      filePath: base.outPath,
+      format: "png",
+      width: base.width,
+      height: base.height,
+      itemCount: items.length,
+      skippedImages: base.skippedImages,
+      fromCache: base.fromCache,
+      snapshotKey: baseKey
+    };
+  }
+
+  const format = options.format ?? "png";
+  const snapshotKey = `${baseKey}-${variantDigest(options)}`;
+  const { outPath, imageUrl } = await snapshotLocation(wallId, `wall-snapshot-${snapshotKey}.${format}`);
+
+  // A variant leaves out whatever its full-size render did.
+  const skippedImages = await readSkippedImages(wallId, baseKey);
+  if (skippedImages !== null) {
+    try {
+      await fs.access(outPath);
+      const meta = await sharp(outPath).metadata();
+      return {
+        wallId,
+        imageUrl,
+        filePath: outPath,
+        format,
+        width: meta.width ?? 0,
+        height: meta.height ?? 0,
+        itemCount: items.length,
+        skippedImages,
+        fromCache: true,
+        snapshotKey
+      };
+    } catch {
+      // No cached variant yet; derive it from the full-size snapshot.
+    }
+  }
+
+  const base = await loadBaseSnapshot(wall, items, baseKey);
+  const variant = await renderSnapshotVariant(base.buffer, base.width, base.height, options);
+  await fs.writeFile(outPath, variant.buffer);
 
   return {
-    imageUrl: `/uploads/snapshots/${fileName}`,
-    width,
-    height,
+    wallId,
+    imageUrl,
+    filePath: outPath,
+    format,
+    width: variant.width,
+    height: variant.height,
     itemCount: items.length,
-    skippedImages,
+    skippedImages: base.skippedImages,
     fromCache: false,
     snapshotKey
   };
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { GraffitiItem } from "./graffiti.ts";
+import { DEFAULT_LAYER, LAYERS } from "./layers.ts";
+import { LINE_CAPS, LINE_JOINS, pathGeometry } from "./paths.ts";
+import { TEXT_ALIGNS, TEXT_EFFECTS } from "./text-style.ts";
+
+// The shape of graffiti items as the stores keep them, as opposed to the tool
+// arguments in graffiti-schemas.ts. Every record is migrated to the current
+// version and checked on load; records that fail are set aside in quarantine
+// instead of reaching the renderers.
+
+/** Version of the stored item format. Raise it together with a new entry in MIGRATIONS. */
+export const GRAFFITI_SCHEMA_VERSION = 1;
+
+type StoredRecord = Record<string, unknown>;
+
+type Migration = {
+  /** The version records are at once this migration has run. */
+  version: number;
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+};
+
+// Run in order on records stored at an older version. Version 0 is the
+// unversioned graffiti.json from before layers, moderation and authors.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Fill in layer, zIndex, status, author and updatedAt",
+    migrate: (record) => ({
+      ...record,
+      layer: record.layer ?? DEFAULT_LAYER,
+      zIndex: record.zIndex ?? 0,
+      status: record.status ?? "approved",
+      author: record.author ?? "anonymous",
+      updatedAt: record.updatedAt ?? record.createdAt
+    })
+  }
+];
+
+export type QuarantinedRecord = {
+  /** The record as it was stored. */
+  record: unknown;
+  /** Why it was set aside, one entry per problem. */
+  issues: string[];
+  quarantinedAt: string;
+};
+
+export type CheckedRecords = {
+  items: GraffitiItem[];
+  quarantined: QuarantinedRecord[];
+};
+
+const finite = z.number().finite();
+const timestamp = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date");
+const position = z.object({ x: finite, y: finite });
+const dimensions = z.object({ width: finite.nonnegative(), height: finite.nonnegative() });
+
+// Unknown fields pass through, so a record written by a newer minor change is not quarantined.
+const commonFields = {
+  id: z.string().min(1),
+  position,
+  rotation: finite,
+  opacity: finite.min(0).max(1),
+  layer: z.enum(LAYERS),
+  zIndex: z.number().int(),
+  status: z.enum(["approved", "pending"]),
+  author: z.string(),
+  groupId: z.string().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+};
+
+const storedTextSchema = z
+  .object({
+    ...commonFields,
+    type: z.literal("text"),
+    text: z.string(),
+    font: z.string(),
+    color: z.string(),
+    size: finite.positive(),
+    stroke: z.object({ color: z.string(), width: finite.nonnegative() }).optional(),
+    shadow: z.object({ color: z.string(), offsetX: finite, offsetY: finite, blur: finite.nonnegative() }).optional(),
+    letterSpacing: finite.optional(),
+    align: z.enum(TEXT_ALIGNS).optional(),
+    gradient: z.object({ colors: z.array(z.string()).min(1), angle: finite }).optional(),
+    effect: z.enum(TEXT_EFFECTS).optional()
+  })
+  .passthrough();
+
+const storedImageSchema = z
+  .object({
+    ...commonFields,
+    type: z.literal("image"),
+    imageUrl: z.string().min(1),
+    dimensions
+  })
+  .passthrough();
+
+const storedPathSchema = z
+  .object({
+    ...commonFields,
+    type: z.literal("path"),
+    d: z.string().refine((d) => {
+      try {
+        const geometry = pathGeometry(d);
+        return Number.isFinite(geometry.position.x) && Number.isFinite(geometry.position.y);
+      } catch {
+        return false;
+      }
+    }, "Expected valid SVG path data"),
+    color: z.string(),
+    strokeWidth: finite.nonnegative(),
+    fill: z.string(),
+    lineCap: z.enum(LINE_CAPS),
+    lineJoin: z.enum(LINE_JOINS),
+    dimensions
+  })
+  .passthrough();
+
+/** A stored item at the current version; the MCP tools also describe the items they return with it. */
+export const storedItemSchema = z.discriminatedUnion("type", [storedTextSchema, storedImageSchema, storedPathSchema]);
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Throws for data written by a newer version of the server, which this one cannot safely read or rewrite. */
+export function assertReadableVersion(version: number, source: string): void {
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`${source} has an invalid schema version ${version}.`);
+  }
+
+  if (version > GRAFFITI_SCHEMA_VERSION) {
+    throw new Error(
+      `${source} is at schema version ${version}, newer than this server understands (up to ${GRAFFITI_SCHEMA_VERSION}).`
+    );
+  }
+}
+
+/** Upgrades one stored record from the given version to the current one. */
+export function migrateRecord(record: unknown, fromVersion: number): unknown {
+  if (!isRecord(record)) {
+    return record;
+  }
+
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion).reduce(
+    (current, migration) => migration.migrate(current),
+    record
+  );
+}
+
+/** Validates one record that is already at the current version. */
+export function checkRecord(record: unknown): { item: GraffitiItem } | { issues: string[] } {
+  const result = storedItemSchema.safeParse(record);
+  if (result.success) {
+    return { item: result.data as GraffitiItem };
+  }
+
+  return {
+    issues: result.error.issues.map((issue) => `${issue.path.join(".") || "record"}: ${issue.message}`)
+  };
+}
+
+/**
+ * Migrates and validates records stored at the given version. Valid ones come
+ * back as items; the rest are returned as quarantined, untouched, with the
+ * reasons they failed.
+ */
+export function checkRecords(records: unknown[], fromVersion: number): CheckedRecords {
+  const quarantinedAt = new Date().toISOString();
+  const checked: CheckedRecords = { items: [], quarantined: [] };
+
+  for (const record of records) {
+    const result = checkRecord(migrateRecord(record, fromVersion));
+    if ("item" in result) {
+      checked.items.push(result.item);
+    } else {
+      checked.quarantined.push({ record, issues: result.issues, quarantinedAt });
+    }
+  }
+
+  return checked;
+}
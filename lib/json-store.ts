@@ -0,0 +1,213 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { GraffitiItem } from "./graffiti.ts";
+import { GRAFFITI_SCHEMA_VERSION, assertReadableVersion, checkRecords } from "./item-schema.ts";
+import type { QuarantinedRecord } from "./item-schema.ts";
+import { isWithinRange } from "./store.ts";
+import type { GraffitiStore, GraffitiUpdater, TimeRange } from "./store.ts";
+
+type DataFile = {
+  schemaVersion: number;
+  items: unknown[];
+  quarantine?: QuarantinedRecord[];
+};
+
+type LoadedFile = {
+  items: GraffitiItem[];
+  quarantine: QuarantinedRecord[];
+  /** True when the file needs rewriting to bring it to the current version or quarantine records. */
+  stale: boolean;
+};
+
+function isDataFile(value: unknown): value is DataFile {
+  const file = value as Partial<DataFile> | null;
+  return typeof file?.schemaVersion === "number" && Array.isArray(file.items);
+}
+
+export function createJsonFileStore(filePath: string): GraffitiStore {
+  // Every write is a read-modify-write of the whole file, so writes are chained
+  // onto a single queue to keep concurrent sprays from clobbering each other.
+  let queue: Promise<unknown> = Promise.resolve();
+  let upgraded: Promise<void> | null = null;
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task, task);
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  async function ensureDataFile(): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      const empty: DataFile = { schemaVersion: GRAFFITI_SCHEMA_VERSION, items: [] };
+      await fs.writeFile(filePath, JSON.stringify(empty, null, 2), "utf8");
+    }
+  }
+
+  async function readFile(): Promise<LoadedFile> {
+    await ensureDataFile();
+
+    const raw = await fs.readFile(filePath, "utf8");
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new Error(`${filePath} is not valid JSON.`);
+    }
+
+    // Files written before the format was versioned hold a bare array of items.
+    const file: unknown = Array.isArray(data) ? { schemaVersion: 0, items: data } : data;
+    if (!isDataFile(file)) {
+      throw new Error(`${filePath} is not a graffiti data file.`);
+    }
+
+    assertReadableVersion(file.schemaVersion, filePath);
+    const checked = checkRecords(file.items, file.schemaVersion);
+    return {
+      items: checked.items,
+      quarantine: [...(file.quarantine ?? []), ...checked.quarantined],
+      stale: file.schemaVersion < GRAFFITI_SCHEMA_VERSION || checked.quarantined.length > 0
+    };
+  }
+
+  /** Writes the items back along with the file's quarantine, always at the current version. */
+  async function writeFile(file: LoadedFile, items: GraffitiItem[]): Promise<void> {
+    const data: DataFile = { schemaVersion: GRAFFITI_SCHEMA_VERSION, items };
+    if (file.quarantine.length > 0) {
+      data.quarantine = file.quarantine;
+    }
+
+    // Write to a temp file and rename so readers never see a half-written file.
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Brings an older or hand-edited file up to date the first time it is read,
+  // rather than waiting for the next write.
+  function upgrade(): Promise<void> {
+    upgraded ??= serialize(async () => {
+      const file = await readFile();
+      if (file.stale) {
+        await writeFile(file, file.items);
+      }
+    }).catch((error) => {
+      upgraded = null;
+      throw error;
+    });
+    return upgraded;
+  }
+
+  return {
+    async list(range?: TimeRange) {
+      await upgrade();
+      const { items } = await readFile();
+      return items.filter((item) => isWithinRange(item.createdAt, range));
+    },
+
+    add(item: GraffitiItem) {
+      return serialize(async () => {
+        const file = await readFile();
+        const items = file.items;
+        items.push(item);
+        await writeFile(file, items);
+        return item;
+      });
+    },
+
+    update(id: string, updater: GraffitiUpdater) {
+      return serialize(async () => {
+        const file = await readFile();
+        const items = file.items;
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return null;
+        }
+
+        const next = updater(items[index]);
+        items[index] = next;
+        await writeFile(file, items);
+        return next;
+      });
+    },
+
+    remove(id: string) {
+      return serialize(async () => {
+        const file = await readFile();
+        const items = file.items;
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return null;
+        }
+
+        const [removed] = items.splice(index, 1);
+        await writeFile(file, items);
+        return removed;
+      });
+    },
+
+    addMany(added: GraffitiItem[]) {
+      return serialize(async () => {
+        const file = await readFile();
+        const items = file.items;
+        items.push(...added);
+        await writeFile(file, items);
+        return added;
+      });
+    },
+
+    updateMany(ids: string[], updater: GraffitiUpdater) {
+      return serialize(async () => {
+        const wanted = new Set(ids);
+        const file = await readFile();
+        const items = file.items;
+        const updated: GraffitiItem[] = [];
+        const next = items.map((item) => {
+          if (!wanted.has(item.id)) {
+            return item;
+          }
+
+          const patched = updater(item);
+          updated.push(patched);
+          return patched;
+        });
+
+        if (updated.length > 0) {
+          await writeFile(file, next);
+        }
+        return updated;
+      });
+    },
+
+    removeMany(ids: string[]) {
+      return serialize(async () => {
+        const wanted = new Set(ids);
+        const file = await readFile();
+        const items = file.items;
+        const removed = items.filter((item) => wanted.has(item.id));
+        if (removed.length > 0) {
+          await writeFile(file, items.filter((item) => !wanted.has(item.id)));
+        }
+        return removed;
+      });
+    },
+
+    replaceAll(replacement: GraffitiItem[]) {
+      return serialize(async () => {
+        const file = await readFile();
+        await writeFile(file, replacement);
+        return file.items;
+      });
+    },
+
+    async quarantined() {
+      await upgrade();
+      const { quarantine } = await readFile();
+      return quarantine;
+    }
+  };
+}
@@ -0,0 +1,23 @@
+import type { GraffitiItem } from "./graffiti.ts";
+
+export const LAYERS = ["background", "default", "top"] as const;
+
+export type Layer = (typeof LAYERS)[number];
+
+export const DEFAULT_LAYER: Layer = "default";
+
+/**
+ * Paint order shared by the live wall and the snapshot renderer: layer first, then
+ * zIndex within the layer, then creation time for items that tie.
+ */
+export function compareStacking(a: GraffitiItem, b: GraffitiItem): number {
+  return (
+    LAYERS.indexOf(a.layer) - LAYERS.indexOf(b.layer) ||
+    a.zIndex - b.zIndex ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+export function sortByStacking<T extends GraffitiItem>(items: T[]): T[] {
+  return [...items].sort(compareStacking);
+}
@@ -0,0 +1,220 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { SNAPSHOT_DIR, UPLOAD_DIR, getGraffiti, getPendingGraffiti, snapshotKeyFor } from "./graffiti.ts";
+import type { QuarantinedRecord } from "./item-schema.ts";
+import { getGraffitiStore } from "./store.ts";
+import { listWalls } from "./walls.ts";
+
+export type UploadGcOptions = {
+  /** Report what would be deleted without deleting anything. */
+  dryRun?: boolean;
+  /** Stale snapshot and timelapse files to keep per wall, newest first. */
+  keepSnapshots?: number;
+};
+
+type DeletionReport = {
+  deleted: string[];
+  bytesFreed: number;
+  kept: number;
+};
+
+export type UploadGcReport = {
+  dryRun: boolean;
+  snapshots: DeletionReport;
+  uploads: DeletionReport;
+  /** Disk usage once the deletions are done (or would be, on a dry run). */
+  usage: {
+    uploadBytes: number;
+    uploadFiles: number;
+    snapshotBytes: number;
+    snapshotFiles: number;
+    snapshotBytesByWall: Record<string, number>;
+  };
+};
+
+type StoredFile = {
+  name: string;
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+};
+
+const DEFAULT_KEEP_SNAPSHOTS = 5;
+// Uploads are written before their item is saved; younger files may still be about to be referenced.
+const UPLOAD_GRACE_MS = 10 * 60_000;
+const LOOSE_SNAPSHOTS = "(unknown wall)";
+
+async function listFiles(dir: string): Promise<StoredFile[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: StoredFile[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.startsWith(".")) {
+      continue;
+    }
+
+    const filePath = path.join(dir, entry.name);
+    const stats = await fs.stat(filePath);
+    files.push({ name: entry.name, filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+  }
+
+  return files;
+}
+
+async function listSubdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+function isCurrentSnapshot(fileName: string, snapshotKey: string): boolean {
+  return (
+    fileName.startsWith(`wall-snapshot-${snapshotKey}.`) ||
+    fileName.startsWith(`wall-snapshot-${snapshotKey}-`) ||
+    fileName.startsWith(`timelapse-${snapshotKey}-`)
+  );
+}
+
+async function deleteFiles(files: StoredFile[], dryRun: boolean): Promise<void> {
+  if (dryRun) {
+    return;
+  }
+
+  for (const file of files) {
+    await fs.rm(file.filePath, { force: true });
+  }
+}
+
+/** The upload a quarantined record points at, so it survives until the record is repaired or dropped. */
+function quarantinedImageUrl(entry: QuarantinedRecord): string | null {
+  const record = entry.record;
+  if (typeof record === "object" && record !== null && "imageUrl" in record && typeof record.imageUrl === "string") {
+    return record.imageUrl;
+  }
+
+  return null;
+}
+
+/**
+ * Deletes snapshot and timelapse renders of superseded wall states (keeping the
+ * newest few per wall) and uploads no item, quarantined record or wall
+ * background refers to, then reports how much space uploads and snapshots take.
+ */
+export async function collectUploadGarbage(options: UploadGcOptions = {}): Promise<UploadGcReport> {
+  const dryRun = options.dryRun ?? false;
+  const keepSnapshots = options.keepSnapshots ?? DEFAULT_KEEP_SNAPSHOTS;
+  const walls = await listWalls();
+  const currentKeys = new Map<string, string>();
+  const referenced = new Set<string>();
+
+  for (const wall of walls) {
+    const items = await getGraffiti(wall.id);
+    currentKeys.set(wall.id, snapshotKeyFor(items));
+
+    for (const item of [...items, ...(await getPendingGraffiti(wall.id))]) {
+      if (item.type === "image") {
+        referenced.add(item.imageUrl);
+      }
+    }
+    for (const entry of await getGraffitiStore(wall.id).quarantined()) {
+      const imageUrl = quarantinedImageUrl(entry);
+      if (imageUrl) {
+        referenced.add(imageUrl);
+      }
+    }
+    referenced.add(wall.background);
+  }
+
+  const snapshotGroups = new Map<string, StoredFile[]>([[LOOSE_SNAPSHOTS, await listFiles(SNAPSHOT_DIR)]]);
+  for (const dirName of await listSubdirectories(SNAPSHOT_DIR)) {
+    snapshotGroups.set(dirName, await listFiles(path.join(SNAPSHOT_DIR, dirName)));
+  }
+
+  const staleSnapshots: StoredFile[] = [];
+  const snapshotBytesByWall: Record<string, number> = {};
+  let snapshotFiles = 0;
+
+  for (const [group, files] of snapshotGroups) {
+    const currentKey = currentKeys.get(group);
+    const stale = files
+      .filter((file) => currentKey === undefined || !isCurrentSnapshot(file.name, currentKey))
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)
+      .slice(keepSnapshots);
+    const remaining = files.filter((file) => !stale.includes(file));
+
+    staleSnapshots.push(...stale);
+    snapshotFiles += remaining.length;
+    if (files.length > 0) {
+      snapshotBytesByWall[group] = remaining.reduce((total, file) => total + file.size, 0);
+    }
+  }
+
+  const uploads = await listFiles(UPLOAD_DIR);
+  const cutoff = Date.now() - UPLOAD_GRACE_MS;
+  const orphanedUploads = uploads.filter(
+    (file) => !referenced.has(`/uploads/${file.name}`) && file.mtimeMs < cutoff
+  );
+  const keptUploads = uploads.filter((file) => !orphanedUploads.includes(file));
+
+  await deleteFiles(staleSnapshots, dryRun);
+  await deleteFiles(orphanedUploads, dryRun);
+
+  return {
+    dryRun,
+    snapshots: {
+      deleted: staleSnapshots.map((file) => path.relative(UPLOAD_DIR, file.filePath)),
+      bytesFreed: staleSnapshots.reduce((total, file) => total + file.size, 0),
+      kept: snapshotFiles
+    },
+    uploads: {
+      deleted: orphanedUploads.map((file) => file.name),
+      bytesFreed: orphanedUploads.reduce((total, file) => total + file.size, 0),
+      kept: keptUploads.length
+    },
+    usage: {
+      uploadBytes: keptUploads.reduce((total, file) => total + file.size, 0),
+      uploadFiles: keptUploads.length,
+      snapshotBytes: Object.values(snapshotBytesByWall).reduce((total, bytes) => total + bytes, 0),
+      snapshotFiles,
+      snapshotBytesByWall
+    }
+  };
+}
+
+/** Runs upload GC every intervalMinutes; returns a function that stops it. */
+export function scheduleUploadGarbageCollection(intervalMinutes: number): () => void {
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    collectUploadGarbage()
+      .then((report) => {
+        const deleted = report.snapshots.deleted.length + report.uploads.deleted.length;
+        if (deleted > 0) {
+          const freed = report.snapshots.bytesFreed + report.uploads.bytesFreed;
+          console.log(`Upload GC removed ${deleted} file(s), freeing ${freed} bytes`);
+        }
+      })
+      .catch((error) => {
+        console.error("Upload GC failed", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMinutes * 60_000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+
+export type ModerationDecision = "accepted" | "queued" | "rejected";
+
+export type ModerationResult = {
+  decision: ModerationDecision;
+  reasons: string[];
+};
+
+export type ModerationCandidate =
+  | { type: "text"; text: string }
+  | { type: "image"; source: string; bytes: Buffer | null }
+  | { type: "path"; d: string };
+
+export type ModerationConfig = {
+  /** Whole words (case-insensitive) that get an item rejected outright. */
+  blockedWords: string[];
+  /** Regular expression sources (case-insensitive) that get an item rejected outright. */
+  blockedPatterns: string[];
+  /** Regular expression sources (case-insensitive) that send an item to review. */
+  reviewPatterns: string[];
+  maxTextLength: number;
+  maxTextLines: number;
+  /** Queue every new image for review instead of showing it immediately. */
+  reviewImages: boolean;
+  image: {
+    maxBytes: number;
+    formats: string[];
+    maxWidth: number;
+    maxHeight: number;
+  };
+};
+
+type ModerationVerdict = {
+  decision: Exclude<ModerationDecision, "accepted">;
+  reason: string;
+};
+
+type ModerationHook = (
+  candidate: ModerationCandidate,
+  config: ModerationConfig
+) => Promise<ModerationVerdict[]>;
+
+const CONFIG_FILE = process.env.MODERATION_CONFIG ?? path.join(process.cwd(), "data", "moderation.json");
+
+const DEFAULT_CONFIG: ModerationConfig = {
+  blockedWords: [],
+  blockedPatterns: [],
+  reviewPatterns: [],
+  maxTextLength: 280,
+  maxTextLines: 6,
+  reviewImages: false,
+  image: {
+    maxBytes: 5 * 1024 * 1024,
+    formats: ["png", "jpeg", "webp", "gif"],
+    maxWidth: 4096,
+    maxHeight: 4096
+  }
+};
+
+export async function loadModerationConfig(): Promise<ModerationConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(CONFIG_FILE, "utf8");
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<ModerationConfig>;
+  return {
+    ...DEFAULT_CONFIG,
+    ...parsed,
+    image: { ...DEFAULT_CONFIG.image, ...parsed.image }
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compilePatterns(sources: string[]): RegExp[] {
+  return sources.flatMap((source) => {
+    try {
+      return [new RegExp(source, "i")];
+    } catch {
+      console.warn(`Ignoring invalid moderation pattern: ${source}`);
+      return [];
+    }
+  });
+}
+
+const textLimitsHook: ModerationHook = async (candidate, config) => {
+  if (candidate.type !== "text") {
+    return [];
+  }
+
+  const verdicts: ModerationVerdict[] = [];
+  if (candidate.text.length > config.maxTextLength) {
+    verdicts.push({
+      decision: "rejected",
+      reason: `text is ${candidate.text.length} characters (max ${config.maxTextLength})`
+    });
+  }
+
+  const lineCount = candidate.text.split(/\r?\n/).length;
+  if (lineCount > config.maxTextLines) {
+    verdicts.push({
+      decision: "rejected",
+      reason: `text has ${lineCount} lines (max ${config.maxTextLines})`
+    });
+  }
+
+  return verdicts;
+};
+
+const blocklistHook: ModerationHook = async (candidate, config) => {
+  if (candidate.type !== "text") {
+    return [];
+  }
+
+  const blocked = [
+    ...config.blockedWords.map((word) => new RegExp(`\\b${escapeRegExp(word)}\\b`, "i")),
+    ...compilePatterns(config.blockedPatterns)
+  ];
+  if (blocked.some((pattern) => pattern.test(candidate.text))) {
+    return [{ decision: "rejected", reason: "text matches the blocklist" }];
+  }
+
+  if (compilePatterns(config.reviewPatterns).some((pattern) => pattern.test(candidate.text))) {
+    return [{ decision: "queued", reason: "text needs a moderator's review" }];
+  }
+
+  return [];
+};
+
+const imageHook: ModerationHook = async (candidate, config) => {
+  if (candidate.type !== "image") {
+    return [];
+  }
+
+  if (!candidate.bytes) {
+    return [{ decision: "queued", reason: `image ${candidate.source} could not be loaded for inspection` }];
+  }
+
+  if (candidate.bytes.length > config.image.maxBytes) {
+    return [
+      {
+        decision: "rejected",
+        reason: `image is ${candidate.bytes.length} bytes (max ${config.image.maxBytes})`
+      }
+    ];
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(candidate.bytes).metadata();
+  } catch {
+    return [{ decision: "rejected", reason: "image data is not a readable image" }];
+  }
+
+  const verdicts: ModerationVerdict[] = [];
+  if (!metadata.format || !config.image.formats.includes(metadata.format)) {
+    verdicts.push({
+      decision: "rejected",
+      reason: `image format ${metadata.format ?? "unknown"} is not allowed (allowed: ${config.image.formats.join(", ")})`
+    });
+  }
+
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  if (width > config.image.maxWidth || height > config.image.maxHeight) {
+    verdicts.push({
+      decision: "rejected",
+      reason: `image is ${width}x${height} pixels (max ${config.image.maxWidth}x${config.image.maxHeight})`
+    });
+  }
+
+  if (config.reviewImages) {
+    verdicts.push({ decision: "queued", reason: "images are reviewed before they appear" });
+  }
+
+  return verdicts;
+};
+
+const HOOKS: ModerationHook[] = [textLimitsHook, blocklistHook, imageHook];
+
+/**
+ * Runs a candidate through every moderation hook. Any rejection wins over a
+ * review request; with neither, the item is accepted.
+ */
+export async function moderateGraffiti(candidate: ModerationCandidate): Promise<ModerationResult> {
+  const config = await loadModerationConfig();
+  const verdicts = (await Promise.all(HOOKS.map((hook) => hook(candidate, config)))).flat();
+
+  const rejections = verdicts.filter((verdict) => verdict.decision === "rejected");
+  if (rejections.length > 0) {
+    return { decision: "rejected", reasons: rejections.map((verdict) => verdict.reason) };
+  }
+
+  const queued = verdicts.filter((verdict) => verdict.decision === "queued");
+  if (queued.length > 0) {
+    return { decision: "queued", reasons: queued.map((verdict) => verdict.reason) };
+  }
+
+  return { decision: "accepted", reasons: [] };
+}
@@ -0,0 +1,386 @@
+import { ValidationError } from "./errors.ts";
+import type { Dimensions, GraffitiPath, Position } from "./graffiti.ts";
+import { escapeXml } from "./text-style.ts";
+
+// Path data is stored in wall percentages (0-100 on both axes) and scaled to
+// pixels at render time. Shared with the browser wall, so no Node-only imports.
+
+export const LINE_CAPS = ["butt", "round", "square"] as const;
+export const LINE_JOINS = ["miter", "round", "bevel"] as const;
+export const SHAPES = ["rect", "ellipse", "line", "arrow"] as const;
+
+export type LineCap = (typeof LINE_CAPS)[number];
+export type LineJoin = (typeof LINE_JOINS)[number];
+export type Shape = (typeof SHAPES)[number];
+
+type PathCommand = {
+  command: string;
+  values: number[];
+};
+
+type PathGeometry = {
+  /** Centre of the path's bounding box. */
+  position: Position;
+  dimensions: Dimensions;
+};
+
+const PARAMETER_COUNTS: Record<string, number> = { M: 2, L: 2, T: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, A: 7, Z: 0 };
+const MAX_PATH_COMMANDS = 2000;
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATOR = /[\s,]*/y;
+const ARC_SAMPLES = 16;
+const ARROW_HEAD_ANGLE = (28 * Math.PI) / 180;
+
+/** Parses SVG path data, throwing a message that points at the first problem. */
+export function parsePathData(d: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    SEPARATOR.lastIndex = index;
+    SEPARATOR.exec(d);
+    index = SEPARATOR.lastIndex;
+  };
+  const readNumber = () => {
+    skipSeparators();
+    NUMBER.lastIndex = index;
+    const match = NUMBER.exec(d);
+    if (!match) {
+      throw new ValidationError(`Invalid path data: expected a number at character ${index}.`);
+    }
+    index = NUMBER.lastIndex;
+    return Number(match[0]);
+  };
+  const readFlag = () => {
+    skipSeparators();
+    const flag = d[index];
+    if (flag !== "0" && flag !== "1") {
+      throw new ValidationError(`Invalid path data: expected an arc flag (0 or 1) at character ${index}.`);
+    }
+    index += 1;
+    return Number(flag);
+  };
+
+  skipSeparators();
+  while (index < d.length) {
+    const letter = d[index];
+    const upper = letter.toUpperCase();
+    const count = PARAMETER_COUNTS[upper];
+    if (count === undefined) {
+      throw new ValidationError(`Invalid path data: unexpected "${letter}" at character ${index}.`);
+    }
+    if (commands.length === 0 && upper !== "M") {
+      throw new ValidationError("Invalid path data: it must start with a moveto (M or m).");
+    }
+    index += 1;
+
+    let repeat = false;
+    do {
+      const values: number[] = [];
+      for (let parameter = 0; parameter < count; parameter += 1) {
+        values.push(upper === "A" && (parameter === 3 || parameter === 4) ? readFlag() : readNumber());
+      }
+
+      // Extra coordinate pairs after a moveto are implicit linetos.
+      const command = repeat && upper === "M" ? (letter === "M" ? "L" : "l") : letter;
+      commands.push({ command, values });
+      repeat = true;
+      skipSeparators();
+    } while (count > 0 && index < d.length && /[\d.+-]/.test(d[index]));
+
+    if (commands.length > MAX_PATH_COMMANDS) {
+      throw new ValidationError(`Invalid path data: more than ${MAX_PATH_COMMANDS} commands.`);
+    }
+  }
+
+  if (commands.length === 0) {
+    throw new ValidationError("Invalid path data: it is empty.");
+  }
+
+  return commands;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function serializePath(commands: PathCommand[]): string {
+  return commands.map(({ command, values }) => `${command}${values.map(formatNumber).join(" ")}`).join(" ");
+}
+
+/** Scales every coordinate by (scaleX, scaleY), then shifts absolute ones by (offsetX, offsetY). */
+function transformPath(
+  commands: PathCommand[],
+  scaleX: number,
+  scaleY: number,
+  offsetX: number,
+  offsetY: number
+): PathCommand[] {
+  return commands.map(({ command, values }) => {
+    const relative = command === command.toLowerCase();
+    const moveX = relative ? 0 : offsetX;
+    const moveY = relative ? 0 : offsetY;
+
+    switch (command.toUpperCase()) {
+      case "H":
+        return { command, values: [values[0] * scaleX + moveX] };
+      case "V":
+        return { command, values: [values[0] * scaleY + moveY] };
+      case "A":
+        return {
+          command,
+          values: [
+            values[0] * scaleX,
+            values[1] * scaleY,
+            values[2],
+            values[3],
+            values[4],
+            values[5] * scaleX + moveX,
+            values[6] * scaleY + moveY
+          ]
+        };
+      default:
+        return {
+          command,
+          values: values.map((value, index) => (index % 2 === 0 ? value * scaleX + moveX : value * scaleY + moveY))
+        };
+    }
+  });
+}
+
+/** Points on an SVG elliptical arc, following the endpoint-to-centre conversion in the SVG spec. */
+function arcPoints(from: Position, values: number[], to: Position): Position[] {
+  let rx = Math.abs(values[0]);
+  let ry = Math.abs(values[1]);
+  if (rx === 0 || ry === 0) {
+    return [to];
+  }
+
+  const phi = (values[2] * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const halfDx = (from.x - to.x) / 2;
+  const halfDy = (from.y - to.y) / 2;
+  const x1 = cos * halfDx + sin * halfDy;
+  const y1 = -sin * halfDx + cos * halfDy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const sign = values[3] === values[4] ? -1 : 1;
+  const coefficient = denominator === 0 ? 0 : sign * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (coefficient * rx * y1) / ry;
+  const cy1 = (-coefficient * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweep = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (values[4] === 0 && sweep > 0) {
+    sweep -= 2 * Math.PI;
+  } else if (values[4] === 1 && sweep < 0) {
+    sweep += 2 * Math.PI;
+  }
+
+  const points: Position[] = [];
+  for (let step = 1; step <= ARC_SAMPLES; step += 1) {
+    const theta = start + (sweep * step) / ARC_SAMPLES;
+    points.push({
+      x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos
+    });
+  }
+
+  return points;
+}
+
+/** Absolute points the path passes through, including Bézier control points. */
+function pathPoints(commands: PathCommand[]): Position[] {
+  const points: Position[] = [];
+  let current: Position = { x: 0, y: 0 };
+  let subpathStart: Position = current;
+
+  for (const { command, values } of commands) {
+    const relative = command === command.toLowerCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const upper = command.toUpperCase();
+
+    if (upper === "Z") {
+      current = subpathStart;
+      points.push(current);
+      continue;
+    }
+
+    if (upper === "H" || upper === "V") {
+      current =
+        upper === "H" ? { x: base.x + values[0], y: current.y } : { x: current.x, y: base.y + values[0] };
+      points.push(current);
+      continue;
+    }
+
+    if (upper === "A") {
+      const end = { x: base.x + values[5], y: base.y + values[6] };
+      points.push(...arcPoints(current, values, end));
+      current = end;
+      continue;
+    }
+
+    for (let index = 0; index < values.length; index += 2) {
+      points.push({ x: base.x + values[index], y: base.y + values[index + 1] });
+    }
+    current = points[points.length - 1];
+    if (upper === "M") {
+      subpathStart = current;
+    }
+  }
+
+  return points;
+}
+
+/** Bounding box of path data, counting control points, as a centre position and size. */
+export function pathGeometry(d: string): PathGeometry {
+  const points = pathPoints(parsePathData(d));
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+
+  return {
+    position: { x: minX + width / 2, y: minY + height / 2 },
+    dimensions: { width, height }
+  };
+}
+
+/** Rough length of the path in wall percent, measured along its points. */
+export function approximatePathLength(d: string): number {
+  const points = pathPoints(parsePathData(d));
+  let length = 0;
+  for (let index = 1; index < points.length; index += 1) {
+    length += Math.hypot(points[index].x - points[index - 1].x, points[index].y - points[index - 1].y);
+  }
+
+  return length;
+}
+
+/** Re-serializes path data in a compact, validated form. */
+export function normalizePathData(d: string): string {
+  return serializePath(parsePathData(d));
+}
+
+/**
+ * Moves and/or resizes a path so its bounding box gets the given centre and
+ * size. A zero-size axis (a straight horizontal or vertical line) keeps its size.
+ */
+export function reshapePath(
+  item: Pick<GraffitiPath, "d" | "position" | "dimensions">,
+  position: Position = item.position,
+  dimensions: Dimensions = item.dimensions
+): string {
+  const scaleX = item.dimensions.width === 0 ? 1 : dimensions.width / item.dimensions.width;
+  const scaleY = item.dimensions.height === 0 ? 1 : dimensions.height / item.dimensions.height;
+
+  return serializePath(
+    transformPath(
+      parsePathData(item.d),
+      scaleX,
+      scaleY,
+      position.x - item.position.x * scaleX,
+      position.y - item.position.y * scaleY
+    )
+  );
+}
+
+/** Path data through the given points, optionally smoothed with a Catmull-Rom spline. */
+export function pointsToPathData(points: Position[], smooth = false, closed = false): string {
+  const format = (point: Position) => `${formatNumber(point.x)} ${formatNumber(point.y)}`;
+  const segments = [`M${format(points[0])}`];
+
+  if (!smooth || points.length < 3) {
+    segments.push(...points.slice(1).map((point) => `L${format(point)}`));
+  } else {
+    const count = points.length;
+    const at = (index: number) =>
+      closed ? points[(index + count) % count] : points[Math.min(Math.max(index, 0), count - 1)];
+    const last = closed ? count : count - 1;
+
+    for (let index = 0; index < last; index += 1) {
+      const [p0, p1, p2, p3] = [at(index - 1), at(index), at(index + 1), at(index + 2)];
+      const control1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+      const control2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+      segments.push(`C${format(control1)} ${format(control2)} ${format(p2)}`);
+    }
+  }
+
+  if (closed) {
+    segments.push("Z");
+  }
+
+  return segments.join(" ");
+}
+
+type Box = { x: number; y: number; width: number; height: number };
+
+type ShapeInput =
+  | { shape: "rect"; box: Box }
+  | { shape: "ellipse"; box: Box }
+  | { shape: "line" | "arrow"; from: Position; to: Position; headSize?: number };
+
+/** Path data for a basic shape, in wall percentages. */
+export function shapePathData(input: ShapeInput): string {
+  const format = (x: number, y: number) => `${formatNumber(x)} ${formatNumber(y)}`;
+
+  if (input.shape === "rect") {
+    const { x, y, width, height } = input.box;
+    return `M${format(x, y)} H${formatNumber(x + width)} V${formatNumber(y + height)} H${formatNumber(x)} Z`;
+  }
+
+  if (input.shape === "ellipse") {
+    const rx = input.box.width / 2;
+    const ry = input.box.height / 2;
+    const cx = input.box.x + rx;
+    const cy = input.box.y + ry;
+    const arc = (x: number, y: number) => `A${format(rx, ry)} 0 0 1 ${format(x, y)}`;
+    return `M${format(cx - rx, cy)} ${arc(cx, cy - ry)} ${arc(cx + rx, cy)} ${arc(cx, cy + ry)} ${arc(cx - rx, cy)} Z`;
+  }
+
+  const { from, to } = input;
+  const line = `M${format(from.x, from.y)} L${format(to.x, to.y)}`;
+  if (input.shape === "line") {
+    return line;
+  }
+
+  const headSize = input.headSize ?? 3;
+  const direction = Math.atan2(to.y - from.y, to.x - from.x) + Math.PI;
+  const barb = (offset: number) =>
+    format(to.x + headSize * Math.cos(direction + offset), to.y + headSize * Math.sin(direction + offset));
+  return `${line} M${barb(ARROW_HEAD_ANGLE)} L${format(to.x, to.y)} L${barb(-ARROW_HEAD_ANGLE)}`;
+}
+
+/**
+ * SVG markup for a path item on a wall of the given pixel size. Stroke width is
+ * a percentage of the wall's width, so strokes scale with the background.
+ */
+export function pathItemSvg(item: GraffitiPath, width: number, height: number): string {
+  const d = serializePath(transformPath(parsePathData(item.d), width / 100, height / 100, 0, 0));
+  const centerX = (item.position.x / 100) * width;
+  const centerY = (item.position.y / 100) * height;
+  const attributes = [
+    `d="${d}"`,
+    `fill="${escapeXml(item.fill)}"`,
+    `stroke="${escapeXml(item.color)}"`,
+    `stroke-width="${formatNumber((item.strokeWidth / 100) * width)}"`,
+    `stroke-linecap="${item.lineCap}"`,
+    `stroke-linejoin="${item.lineJoin}"`
+  ];
+
+  return `<g opacity="${item.opacity}" transform="rotate(${item.rotation} ${formatNumber(centerX)} ${formatNumber(centerY)})"><path ${attributes.join(" ")} /></g>`;
+}
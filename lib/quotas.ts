@@ -0,0 +1,224 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ClientIdentity } from "./api-keys.ts";
+import { countWallItems, estimateTextDimensions } from "./graffiti.ts";
+import type { GraffitiImage, GraffitiPath, GraffitiText } from "./graffiti.ts";
+import { approximatePathLength } from "./paths.ts";
+
+type BucketConfig = {
+  capacity: number;
+  /** Tokens added back per millisecond. */
+  refillPerMs: number;
+};
+
+export type QuotaConfig = {
+  clientRequests: { capacity: number; perMinute: number };
+  sessionRequests: { capacity: number; perMinute: number };
+  /** Paint is measured in square percent of the wall: 10000 covers it entirely. */
+  paint: { capacity: number; perHour: number };
+  maxItemsPerWall: number;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type SessionQuota = {
+  requests: Bucket | null;
+};
+
+type CoverageInput =
+  | Pick<GraffitiText, "type" | "text" | "size">
+  | Pick<GraffitiImage, "type" | "dimensions">
+  | Pick<GraffitiPath, "type" | "d" | "strokeWidth" | "fill" | "dimensions">;
+
+export class QuotaExceededError extends Error {
+  readonly retryAfterSeconds: number | null;
+
+  constructor(message: string, retryAfterSeconds: number | null) {
+    super(retryAfterSeconds === null ? message : `${message}; retry after ${retryAfterSeconds}s`);
+    this.name = "QuotaExceededError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const CONFIG_FILE = process.env.QUOTA_CONFIG ?? path.join(process.cwd(), "data", "quotas.json");
+
+const DEFAULT_CONFIG: QuotaConfig = {
+  clientRequests: { capacity: 30, perMinute: 30 },
+  sessionRequests: { capacity: 10, perMinute: 10 },
+  paint: { capacity: 2500, perHour: 2500 },
+  maxItemsPerWall: 500
+};
+
+type ClientBuckets = {
+  requests: Map<string, Bucket>;
+  paint: Map<string, Bucket>;
+};
+
+const BUCKETS_KEY = Symbol.for("leftys.quotaBuckets");
+
+// Shared through globalThis so sprays from the wall page, which run in Next.js's
+// bundled copy of lib/, draw on the same per-client budgets as MCP sprays.
+function getClientBuckets(): ClientBuckets {
+  const registry = globalThis as typeof globalThis & { [BUCKETS_KEY]?: ClientBuckets };
+  registry[BUCKETS_KEY] ??= { requests: new Map(), paint: new Map() };
+  return registry[BUCKETS_KEY];
+}
+
+function bucketKey(identity: ClientIdentity): string {
+  return identity.quotaKey ?? identity.client;
+}
+
+export async function loadQuotaConfig(): Promise<QuotaConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(CONFIG_FILE, "utf8");
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<QuotaConfig>;
+  return {
+    clientRequests: { ...DEFAULT_CONFIG.clientRequests, ...parsed.clientRequests },
+    sessionRequests: { ...DEFAULT_CONFIG.sessionRequests, ...parsed.sessionRequests },
+    paint: { ...DEFAULT_CONFIG.paint, ...parsed.paint },
+    maxItemsPerWall: parsed.maxItemsPerWall ?? DEFAULT_CONFIG.maxItemsPerWall
+  };
+}
+
+function perMinute(limit: { capacity: number; perMinute: number }): BucketConfig {
+  return { capacity: limit.capacity, refillPerMs: limit.perMinute / 60_000 };
+}
+
+function perHour(limit: { capacity: number; perHour: number }): BucketConfig {
+  return { capacity: limit.capacity, refillPerMs: limit.perHour / 3_600_000 };
+}
+
+function refill(bucket: Bucket | null | undefined, config: BucketConfig, now: number): Bucket {
+  if (!bucket) {
+    return { tokens: config.capacity, updatedAt: now };
+  }
+
+  const tokens = Math.min(config.capacity, bucket.tokens + (now - bucket.updatedAt) * config.refillPerMs);
+  return { tokens, updatedAt: now };
+}
+
+/** Seconds until the bucket holds `cost` tokens, or null if it never can. */
+function retryAfter(bucket: Bucket, cost: number, config: BucketConfig): number | null {
+  if (cost > config.capacity || config.refillPerMs <= 0) {
+    return null;
+  }
+
+  return Math.max(1, Math.ceil((cost - bucket.tokens) / config.refillPerMs / 1000));
+}
+
+export function createSessionQuota(): SessionQuota {
+  return { requests: null };
+}
+
+/** Estimated share of the wall an item covers, in square percent. */
+export function estimateCoverage(item: CoverageInput): number {
+  if (item.type === "image") {
+    return item.dimensions.width * item.dimensions.height;
+  }
+
+  if (item.type === "path") {
+    // The stroke is charged as a band along the path; a fill adds the whole bounding box.
+    const strokeArea = approximatePathLength(item.d) * item.strokeWidth;
+    const fillArea = item.fill === "none" ? 0 : item.dimensions.width * item.dimensions.height;
+    return Math.min(10000, strokeArea + fillArea);
+  }
+
+  const dimensions = estimateTextDimensions(item.text, item.size);
+  return dimensions.width * dimensions.height;
+}
+
+/** Spends one request token from both the client's and the session's bucket, or throws. */
+export async function consumeSprayRequest(identity: ClientIdentity, session: SessionQuota): Promise<void> {
+  const config = await loadQuotaConfig();
+  const now = Date.now();
+  const clientConfig = perMinute(config.clientRequests);
+  const sessionConfig = perMinute(config.sessionRequests);
+  const clientBucket = refill(getClientBuckets().requests.get(bucketKey(identity)), clientConfig, now);
+  const sessionBucket = refill(session.requests, sessionConfig, now);
+
+  if (clientBucket.tokens < 1) {
+    throw new QuotaExceededError(
+      `Rate limit reached for client "${identity.client}" (${config.clientRequests.perMinute} sprays per minute)`,
+      retryAfter(clientBucket, 1, clientConfig)
+    );
+  }
+
+  if (sessionBucket.tokens < 1) {
+    throw new QuotaExceededError(
+      `Rate limit reached for this session (${config.sessionRequests.perMinute} sprays per minute)`,
+      retryAfter(sessionBucket, 1, sessionConfig)
+    );
+  }
+
+  getClientBuckets().requests.set(bucketKey(identity), { ...clientBucket, tokens: clientBucket.tokens - 1 });
+  session.requests = { ...sessionBucket, tokens: sessionBucket.tokens - 1 };
+}
+
+/** Checks that the wall has room for newItems more items and spends paint from the client's budget, or throws. */
+export async function consumePaint(
+  identity: ClientIdentity,
+  wallId: string,
+  coverage: number,
+  newItems = 1
+): Promise<void> {
+  const config = await loadQuotaConfig();
+  const itemCount = await countWallItems(wallId);
+  if (itemCount + newItems > config.maxItemsPerWall) {
+    throw new QuotaExceededError(
+      itemCount >= config.maxItemsPerWall
+        ? `Wall "${wallId}" is full (${itemCount}/${config.maxItemsPerWall} items); erase something or use another wall`
+        : `Wall "${wallId}" has room for ${config.maxItemsPerWall - itemCount} more item(s), not ${newItems}`,
+      null
+    );
+  }
+
+  const paintConfig = perHour(config.paint);
+  const bucket = refill(getClientBuckets().paint.get(bucketKey(identity)), paintConfig, Date.now());
+  if (bucket.tokens < coverage) {
+    const needed = Math.ceil(coverage);
+    throw new QuotaExceededError(
+      coverage > paintConfig.capacity
+        ? `Item covers ${needed} sq% of the wall, more than the whole paint budget of ${paintConfig.capacity}`
+        : `Paint budget exhausted for client "${identity.client}" (${Math.floor(bucket.tokens)} of ${needed} sq% left)`,
+      retryAfter(bucket, coverage, paintConfig)
+    );
+  }
+
+  getClientBuckets().paint.set(bucketKey(identity), { ...bucket, tokens: bucket.tokens - coverage });
+}
+
+export type QuotaReport = {
+  client: string;
+  clientRequests: { remaining: number; capacity: number; perMinute: number };
+  sessionRequests: { remaining: number; capacity: number; perMinute: number };
+  paint: { remaining: number; capacity: number; perHour: number };
+  wall: { id: string; items: number; maxItems: number };
+};
+
+export async function describeQuota(
+  identity: ClientIdentity,
+  session: SessionQuota,
+  wallId: string
+): Promise<QuotaReport> {
+  const config = await loadQuotaConfig();
+  const now = Date.now();
+  const clientBucket = refill(getClientBuckets().requests.get(bucketKey(identity)), perMinute(config.clientRequests), now);
+  const sessionBucket = refill(session.requests, perMinute(config.sessionRequests), now);
+  const paintBucket = refill(getClientBuckets().paint.get(bucketKey(identity)), perHour(config.paint), now);
+
+  return {
+    client: identity.client,
+    clientRequests: { remaining: Math.floor(clientBucket.tokens), ...config.clientRequests },
+    sessionRequests: { remaining: Math.floor(sessionBucket.tokens), ...config.sessionRequests },
+    paint: { remaining: Math.floor(paintBucket.tokens), ...config.paint },
+    wall: { id: wallId, items: await countWallItems(wallId), maxItems: config.maxItemsPerWall }
+  };
+}
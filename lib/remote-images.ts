@@ -0,0 +1,198 @@
+import dns from "node:dns";
+import type { LookupAddress } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import type { LookupFunction } from "node:net";
+import { ImageSourceError } from "./errors.ts";
+
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+const ALLOWED_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif", "image/avif"];
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// The well-known NAT64 prefix, whose addresses carry an IPv4 address in their
+// last 32 bits. The local-use prefix 64:ff9b:1::/48 is blocked outright instead.
+const NAT64_PREFIX = new net.BlockList();
+NAT64_PREFIX.addSubnet("64:ff9b::", 96, "ipv6");
+
+/** The IPv4 address in the last 32 bits of an IPv6 address, e.g. 64:ff9b::7f00:1 → 127.0.0.1. */
+function embeddedIpv4(address: string): string {
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return dotted[1];
+  }
+
+  const [high, low] = address
+    .split(":")
+    .slice(-2)
+    .map((group) => parseInt(group || "0", 16));
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const mappedIpv4 = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mappedIpv4) {
+    return BLOCKED_ADDRESSES.check(mappedIpv4[1], "ipv4");
+  }
+
+  if (net.isIPv6(address) && NAT64_PREFIX.check(address, "ipv6")) {
+    return BLOCKED_ADDRESSES.check(embeddedIpv4(address), "ipv4");
+  }
+
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// Runs when the socket connects, so a hostname cannot pass a separate check and
+// then resolve to a private address for the actual request.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address))) {
+      callback(new Error(`${hostname} resolves to a private or loopback address`), "", 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`only http and https image URLs are supported, not ${url.protocol}`);
+  }
+
+  // IP literals skip the lookup, so check them here.
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`${host} is a private or loopback address`);
+  }
+}
+
+function requestOnce(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        lookup: publicOnlyLookup,
+        signal,
+        headers: { accept: ALLOWED_CONTENT_TYPES.join(", "), "user-agent": "leftys-graffiti-wall" }
+      },
+      resolve
+    );
+    request.on("error", reject);
+  });
+}
+
+async function readLimited(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      response.destroy();
+      throw new Error(`image is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+async function download(imageUrl: string, signal: AbortSignal): Promise<Buffer> {
+  let url = new URL(imageUrl);
+
+  for (let redirects = 0; ; redirects += 1) {
+    assertFetchableUrl(url);
+    const response = await requestOnce(url, signal);
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+      }
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+
+    if (status !== 200) {
+      response.resume();
+      throw new Error(`server answered HTTP ${status}`);
+    }
+
+    const contentType = (response.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
+      response.resume();
+      throw new Error(
+        `content type ${contentType || "(none)"} is not allowed (allowed: ${ALLOWED_CONTENT_TYPES.join(", ")})`
+      );
+    }
+
+    const declaredLength = Number(response.headers["content-length"]);
+    if (declaredLength > MAX_DOWNLOAD_BYTES) {
+      response.resume();
+      throw new Error(`image is ${declaredLength} bytes (max ${MAX_DOWNLOAD_BYTES})`);
+    }
+
+    return readLimited(response, MAX_DOWNLOAD_BYTES);
+  }
+}
+
+/**
+ * Downloads an image from a public http(s) URL with a timeout, a size cap and a
+ * content-type allowlist, refusing hosts on loopback or private networks.
+ */
+export async function downloadRemoteImage(imageUrl: string): Promise<Buffer> {
+  const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+
+  try {
+    return await download(imageUrl, signal);
+  } catch (error) {
+    const reason = signal.aborted
+      ? `timed out after ${DOWNLOAD_TIMEOUT_MS / 1000}s`
+      : error instanceof Error
+        ? error.message
+        : "unknown error";
+    throw new ImageSourceError(`Could not download image_url ${imageUrl}: ${reason}`);
+  }
+}
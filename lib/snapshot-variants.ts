@@ -0,0 +1,184 @@
+import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import { registerBundledFonts } from "./font-config.ts";
+import type { Rect } from "./graffiti.ts";
+
+export type SnapshotFormat = "png" | "jpeg" | "webp";
+
+export type SnapshotVariantOptions = {
+  /** Region of the wall to keep, in wall percentages. */
+  crop?: Rect;
+  maxWidth?: number;
+  maxHeight?: number;
+  format?: SnapshotFormat;
+  /** 1-100; ignored for PNG. */
+  quality?: number;
+  /** Grid line spacing in wall percentages; omit for no grid. */
+  grid?: number;
+};
+
+type RenderedVariant = {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  format: SnapshotFormat;
+};
+
+export type InlineImage = {
+  /** Base64-encoded image bytes. */
+  data: string;
+  mimeType: string;
+};
+
+const DEFAULT_QUALITY = 80;
+
+export function isDefaultVariant(options: SnapshotVariantOptions): boolean {
+  return (
+    !options.crop &&
+    !options.maxWidth &&
+    !options.maxHeight &&
+    (options.format ?? "png") === "png" &&
+    !options.grid
+  );
+}
+
+/** Short digest of the options that change a variant's pixels, for its cache key. */
+export function variantDigest(options: SnapshotVariantOptions): string {
+  const format = options.format ?? "png";
+  const normalized = {
+    crop: options.crop ?? null,
+    maxWidth: options.maxWidth ?? null,
+    maxHeight: options.maxHeight ?? null,
+    format,
+    quality: format === "png" ? null : (options.quality ?? DEFAULT_QUALITY),
+    grid: options.grid ?? null
+  };
+
+  return createHash("sha1").update(JSON.stringify(normalized)).digest("hex").slice(0, 8);
+}
+
+function cropToPixels(crop: Rect, width: number, height: number): sharp.Region {
+  const left = Math.min(width - 1, Math.max(0, Math.round((crop.x / 100) * width)));
+  const top = Math.min(height - 1, Math.max(0, Math.round((crop.y / 100) * height)));
+  const right = Math.min(width, Math.round(((crop.x + crop.width) / 100) * width));
+  const bottom = Math.min(height, Math.round(((crop.y + crop.height) / 100) * height));
+
+  return {
+    left,
+    top,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top)
+  };
+}
+
+/**
+ * Grid lines at every `step` wall percent inside the visible region, labelled
+ * with their wall coordinate so agents can read positions straight off the image.
+ */
+function gridOverlaySvg(width: number, height: number, region: Rect, step: number): Buffer {
+  const fontSize = Math.max(10, Math.round(Math.min(width, height) / 40));
+  const lines: string[] = [];
+  const labels: string[] = [];
+
+  const firstX = Math.ceil(region.x / step) * step;
+  for (let value = firstX; value <= region.x + region.width; value += step) {
+    const x = ((value - region.x) / region.width) * width;
+    lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${height}" />`);
+    labels.push(`<text x="${x + 3}" y="${fontSize + 2}">${value}</text>`);
+  }
+
+  const firstY = Math.ceil(region.y / step) * step;
+  for (let value = firstY; value <= region.y + region.height; value += step) {
+    const y = ((value - region.y) / region.height) * height;
+    lines.push(`<line x1="0" y1="${y}" x2="${width}" y2="${y}" />`);
+    labels.push(`<text x="3" y="${y - 3}">${value}</text>`);
+  }
+
+  const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g stroke="#ff00ff" stroke-opacity="0.55" stroke-width="1">${lines.join("")}</g>
+  <g fill="#ffffff" stroke="#000000" stroke-width="3" paint-order="stroke" font-family="sans-serif" font-size="${fontSize}">${labels.join("")}</g>
+</svg>`;
+
+  return Buffer.from(svg);
+}
+
+/** Crops, downsizes, overlays a grid on and re-encodes a full-size wall render. */
+export async function renderSnapshotVariant(
+  base: Buffer,
+  baseWidth: number,
+  baseHeight: number,
+  options: SnapshotVariantOptions
+): Promise<RenderedVariant> {
+  await registerBundledFonts();
+  const format = options.format ?? "png";
+  let region: Rect = { x: 0, y: 0, width: 100, height: 100 };
+  let image = sharp(base);
+
+  if (options.crop) {
+    // The grid is labelled from the clamped pixels that were actually cut out, not the crop asked for.
+    const pixels = cropToPixels(options.crop, baseWidth, baseHeight);
+    image = image.extract(pixels);
+    region = {
+      x: (pixels.left / baseWidth) * 100,
+      y: (pixels.top / baseHeight) * 100,
+      width: (pixels.width / baseWidth) * 100,
+      height: (pixels.height / baseHeight) * 100
+    };
+  }
+
+  if (options.maxWidth || options.maxHeight) {
+    image = image.resize({
+      width: options.maxWidth,
+      height: options.maxHeight,
+      fit: "inside",
+      withoutEnlargement: true
+    });
+  }
+
+  // Materialize the crop and resize first so the grid is drawn at the final size.
+  let { data, info } = await image.png().toBuffer({ resolveWithObject: true });
+
+  if (options.grid) {
+    ({ data, info } = await sharp(data)
+      .composite([{ input: gridOverlaySvg(info.width, info.height, region, options.grid) }])
+      .png()
+      .toBuffer({ resolveWithObject: true }));
+  }
+
+  const quality = options.quality ?? DEFAULT_QUALITY;
+  const encoded =
+    format === "jpeg"
+      ? sharp(data).flatten({ background: "#ffffff" }).jpeg({ quality })
+      : format === "webp"
+        ? sharp(data).webp({ quality })
+        : sharp(data).png();
+
+  return {
+    buffer: await encoded.toBuffer(),
+    width: info.width,
+    height: info.height,
+    format
+  };
+}
+
+/**
+ * Base64 copy of a rendered snapshot for an MCP image content block. Snapshots
+ * wider than maxWidth are downscaled and sent as WebP to keep the payload small.
+ */
+export async function inlineSnapshotImage(
+  filePath: string,
+  format: SnapshotFormat,
+  maxWidth: number
+): Promise<InlineImage> {
+  const bytes = await fs.readFile(filePath);
+  const meta = await sharp(bytes).metadata();
+
+  if ((meta.width ?? 0) <= maxWidth) {
+    return { data: bytes.toString("base64"), mimeType: `image/${format}` };
+  }
+
+  const preview = await sharp(bytes).resize({ width: maxWidth }).webp({ quality: DEFAULT_QUALITY }).toBuffer();
+  return { data: preview.toString("base64"), mimeType: "image/webp" };
+}
@@ -0,0 +1,435 @@
+import type { ClientIdentity } from "./api-keys.ts";
+import { NotFoundError } from "./errors.ts";
+import {
+  addGraffiti,
+  addGraffitiBatch,
+  applyPatch,
+  assertStorableImage,
+  decodeImageBlob,
+  findGraffitiItem,
+  getGraffiti,
+  placeAvoidingOverlap,
+  storeImage,
+  updateGraffiti
+} from "./graffiti.ts";
+import type {
+  Dimensions,
+  GraffitiItem,
+  GraffitiStatus,
+  NewGraffitiImage,
+  NewGraffitiItem,
+  NewGraffitiPath,
+  NewGraffitiText,
+  Placement,
+  Position
+} from "./graffiti.ts";
+import { NOT_NORMALIZED, normalizePercentPair, toGraffitiPatch, toTextShadow } from "./graffiti-schemas.ts";
+import type {
+  BatchItemArgs,
+  GraffitiPatchArgs,
+  NormalizedFields,
+  PathStyleArgs,
+  SprayImageArgs,
+  SprayPathArgs,
+  SprayShapeArgs,
+  SprayTextArgs
+} from "./graffiti-schemas.ts";
+import { moderateGraffiti } from "./moderation.ts";
+import type { ModerationResult } from "./moderation.ts";
+import { normalizePathData, pathGeometry, pointsToPathData, reshapePath, shapePathData } from "./paths.ts";
+import { consumePaint, consumeSprayRequest, estimateCoverage } from "./quotas.ts";
+import type { SessionQuota } from "./quotas.ts";
+import { downloadRemoteImage } from "./remote-images.ts";
+
+// The spray and edit flows behind both the MCP tools and the wall page's REST
+// endpoints: quotas, moderation, placement and storage, in that order.
+
+export type SprayOutcome =
+  | { outcome: "rejected"; moderation: ModerationResult }
+  | {
+      outcome: "added";
+      item: GraffitiItem;
+      moderation: ModerationResult;
+      normalized: NormalizedFields;
+      placement?: Placement;
+    };
+
+export type BatchOutcome =
+  | {
+      outcome: "rejected";
+      /** Index of the first rejected item. */
+      index: number;
+      moderation: ModerationResult;
+    }
+  | {
+      outcome: "added";
+      groupId: string;
+      items: GraffitiItem[];
+      /** Queued when any item was; reasons are prefixed with the item's 1-based number. */
+      moderation: ModerationResult;
+      /** One entry per item, in order. */
+      normalized: NormalizedFields[];
+    };
+
+export type EditOutcome =
+  | { outcome: "rejected"; moderation: ModerationResult }
+  | { outcome: "updated"; item: GraffitiItem; normalized: NormalizedFields };
+
+type TextFields = Omit<SprayTextArgs, "wall_id" | "avoid_overlap">;
+type ImageFields = Omit<SprayImageArgs, "wall_id" | "avoid_overlap">;
+type PathFields = Omit<PathStyleArgs, "avoid_overlap">;
+
+function statusFor(moderation: ModerationResult): GraffitiStatus {
+  return moderation.decision === "queued" ? "pending" : "approved";
+}
+
+function textItem(args: TextFields, position: Position, author: string, status: GraffitiStatus): NewGraffitiText {
+  return {
+    type: "text",
+    text: args.text,
+    font: args.font,
+    color: args.color,
+    position,
+    size: args.size,
+    rotation: args.rotation,
+    opacity: args.opacity,
+    layer: args.layer,
+    zIndex: args.z_index,
+    stroke: args.stroke,
+    shadow: args.shadow && toTextShadow(args.shadow),
+    letterSpacing: args.letter_spacing,
+    align: args.align,
+    gradient: args.gradient,
+    effect: args.effect,
+    status,
+    author
+  };
+}
+
+function imageItem(
+  args: ImageFields,
+  imageUrl: string,
+  position: Position,
+  dimensions: Dimensions,
+  author: string,
+  status: GraffitiStatus
+): NewGraffitiImage {
+  return {
+    type: "image",
+    imageUrl,
+    position,
+    dimensions,
+    rotation: args.rotation,
+    opacity: args.opacity,
+    layer: args.layer,
+    zIndex: args.z_index,
+    status,
+    author
+  };
+}
+
+function pathItem(d: string, args: PathFields, author: string, status: GraffitiStatus): NewGraffitiPath {
+  return {
+    type: "path",
+    d,
+    color: args.color,
+    strokeWidth: args.stroke_width,
+    fill: args.fill,
+    lineCap: args.line_cap,
+    lineJoin: args.line_join,
+    ...pathGeometry(d),
+    rotation: args.rotation,
+    opacity: args.opacity,
+    layer: args.layer,
+    zIndex: args.z_index,
+    status,
+    author
+  };
+}
+
+/** Path data for spray_path arguments, which give either d or a list of points. */
+export function pathDataFromArgs(args: Pick<SprayPathArgs, "d" | "points" | "smooth" | "closed">): string {
+  return args.d ?? pointsToPathData(args.points!, args.smooth, args.closed);
+}
+
+/** Path data for spray_shape arguments. */
+export function shapeDataFromArgs(args: Pick<SprayShapeArgs, "shape" | "rect" | "from" | "to" | "head_size">): string {
+  return args.shape === "rect" || args.shape === "ellipse"
+    ? shapePathData({ shape: args.shape, box: args.rect! })
+    : shapePathData({ shape: args.shape, from: args.from!, to: args.to!, headSize: args.head_size });
+}
+
+export async function sprayText(
+  identity: ClientIdentity,
+  session: SessionQuota,
+  args: SprayTextArgs
+): Promise<SprayOutcome> {
+  await consumeSprayRequest(identity, session);
+
+  const moderation = await moderateGraffiti({ type: "text", text: args.text });
+  if (moderation.decision === "rejected") {
+    return { outcome: "rejected", moderation };
+  }
+
+  await consumePaint(identity, args.wall_id, estimateCoverage({ type: "text", text: args.text, size: args.size }));
+
+  const normalizedPosition = normalizePercentPair(args.position.x, args.position.y);
+  const requestedPosition = { x: normalizedPosition.first, y: normalizedPosition.second };
+  const placement = args.avoid_overlap
+    ? placeAvoidingOverlap(await getGraffiti(args.wall_id), {
+        type: "text",
+        text: args.text,
+        size: args.size,
+        letterSpacing: args.letter_spacing,
+        align: args.align,
+        position: requestedPosition,
+        rotation: args.rotation
+      })
+    : undefined;
+
+  const item = await addGraffiti(
+    textItem(args, placement?.position ?? requestedPosition, identity.client, statusFor(moderation)),
+    args.wall_id
+  );
+
+  return {
+    outcome: "added",
+    item,
+    moderation,
+    normalized: { position: normalizedPosition.normalized, dimensions: false },
+    placement
+  };
+}
+
+export async function sprayImage(
+  identity: ClientIdentity,
+  session: SessionQuota,
+  args: SprayImageArgs
+): Promise<SprayOutcome> {
+  await consumeSprayRequest(identity, session);
+  const normalizedPosition = normalizePercentPair(args.position.x, args.position.y);
+  const normalizedDimensions = normalizePercentPair(args.dimensions.width, args.dimensions.height);
+
+  const bytes = args.image_blob
+    ? decodeImageBlob(args.image_blob)
+    : await downloadRemoteImage(args.image_url!);
+  await assertStorableImage(bytes);
+  const moderation = await moderateGraffiti({
+    type: "image",
+    source: args.image_url ?? "image_blob",
+    bytes
+  });
+  if (moderation.decision === "rejected") {
+    return { outcome: "rejected", moderation };
+  }
+
+  const dimensions = { width: normalizedDimensions.first, height: normalizedDimensions.second };
+  await consumePaint(identity, args.wall_id, estimateCoverage({ type: "image", dimensions }));
+
+  const imageUrl = await storeImage(bytes);
+  const requestedPosition = { x: normalizedPosition.first, y: normalizedPosition.second };
+  const placement = args.avoid_overlap
+    ? placeAvoidingOverlap(await getGraffiti(args.wall_id), {
+        type: "image",
+        position: requestedPosition,
+        dimensions,
+        rotation: args.rotation
+      })
+    : undefined;
+
+  const item = await addGraffiti(
+    imageItem(args, imageUrl, placement?.position ?? requestedPosition, dimensions, identity.client, statusFor(moderation)),
+    args.wall_id
+  );
+
+  return {
+    outcome: "added",
+    item,
+    moderation,
+    normalized: { position: normalizedPosition.normalized, dimensions: normalizedDimensions.normalized },
+    placement
+  };
+}
+
+/** Sprays path data built by spray_path or spray_shape; d is normalized before it is stored. */
+export async function sprayPath(
+  identity: ClientIdentity,
+  session: SessionQuota,
+  d: string,
+  args: PathStyleArgs & { wall_id: string }
+): Promise<SprayOutcome> {
+  await consumeSprayRequest(identity, session);
+
+  const normalized = normalizePathData(d);
+  const moderation = await moderateGraffiti({ type: "path", d: normalized });
+  if (moderation.decision === "rejected") {
+    return { outcome: "rejected", moderation };
+  }
+
+  const geometry = pathGeometry(normalized);
+  await consumePaint(
+    identity,
+    args.wall_id,
+    estimateCoverage({
+      type: "path",
+      d: normalized,
+      strokeWidth: args.stroke_width,
+      fill: args.fill,
+      dimensions: geometry.dimensions
+    })
+  );
+
+  const placement = args.avoid_overlap
+    ? placeAvoidingOverlap(await getGraffiti(args.wall_id), { type: "path", ...geometry, rotation: args.rotation })
+    : undefined;
+  const placed = placement?.moved ? reshapePath({ d: normalized, ...geometry }, placement.position) : normalized;
+
+  const item = await addGraffiti(pathItem(placed, args, identity.client, statusFor(moderation)), args.wall_id);
+
+  return { outcome: "added", item, moderation, normalized: NOT_NORMALIZED, placement };
+}
+
+type PreparedItem = {
+  moderation: ModerationResult;
+  coverage: number;
+  normalized: NormalizedFields;
+  /** Builds the item once the whole batch has passed; images are only stored then. */
+  build: (status: GraffitiStatus) => Promise<NewGraffitiItem>;
+};
+
+async function prepareBatchItem(entry: BatchItemArgs, author: string): Promise<PreparedItem> {
+  switch (entry.type) {
+    case "text": {
+      const pair = normalizePercentPair(entry.position.x, entry.position.y);
+      const position = { x: pair.first, y: pair.second };
+      return {
+        moderation: await moderateGraffiti({ type: "text", text: entry.text }),
+        coverage: estimateCoverage({ type: "text", text: entry.text, size: entry.size }),
+        normalized: { position: pair.normalized, dimensions: false },
+        build: async (status) => textItem(entry, position, author, status)
+      };
+    }
+    case "image": {
+      const positionPair = normalizePercentPair(entry.position.x, entry.position.y);
+      const dimensionsPair = normalizePercentPair(entry.dimensions.width, entry.dimensions.height);
+      const position = { x: positionPair.first, y: positionPair.second };
+      const dimensions = { width: dimensionsPair.first, height: dimensionsPair.second };
+      const bytes = entry.image_blob
+        ? decodeImageBlob(entry.image_blob)
+        : await downloadRemoteImage(entry.image_url!);
+      await assertStorableImage(bytes);
+      return {
+        moderation: await moderateGraffiti({ type: "image", source: entry.image_url ?? "image_blob", bytes }),
+        coverage: estimateCoverage({ type: "image", dimensions }),
+        normalized: { position: positionPair.normalized, dimensions: dimensionsPair.normalized },
+        build: async (status) => imageItem(entry, await storeImage(bytes), position, dimensions, author, status)
+      };
+    }
+    case "path":
+    case "shape": {
+      const d = normalizePathData(entry.type === "path" ? pathDataFromArgs(entry) : shapeDataFromArgs(entry));
+      const geometry = pathGeometry(d);
+      return {
+        moderation: await moderateGraffiti({ type: "path", d }),
+        coverage: estimateCoverage({
+          type: "path",
+          d,
+          strokeWidth: entry.stroke_width,
+          fill: entry.fill,
+          dimensions: geometry.dimensions
+        }),
+        normalized: NOT_NORMALIZED,
+        build: async (status) => pathItem(d, entry, author, status)
+      };
+    }
+  }
+}
+
+/**
+ * Sprays a composition of several items as one request. Every item is checked
+ * before anything is stored; one rejection rejects the batch, and one queued
+ * item holds the whole batch for review, so the piece only ever appears whole.
+ */
+export async function sprayBatch(
+  identity: ClientIdentity,
+  session: SessionQuota,
+  wallId: string,
+  entries: BatchItemArgs[]
+): Promise<BatchOutcome> {
+  await consumeSprayRequest(identity, session);
+
+  const prepared: PreparedItem[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const item = await prepareBatchItem(entry, identity.client);
+    if (item.moderation.decision === "rejected") {
+      return { outcome: "rejected", index, moderation: item.moderation };
+    }
+    prepared.push(item);
+  }
+
+  const moderation: ModerationResult = {
+    decision: prepared.some((item) => item.moderation.decision === "queued") ? "queued" : "accepted",
+    reasons: prepared.flatMap((item, index) => item.moderation.reasons.map((reason) => `item ${index + 1}: ${reason}`))
+  };
+  await consumePaint(
+    identity,
+    wallId,
+    prepared.reduce((total, item) => total + item.coverage, 0),
+    prepared.length
+  );
+
+  const status = statusFor(moderation);
+  const built: NewGraffitiItem[] = [];
+  for (const item of prepared) {
+    built.push(await item.build(status));
+  }
+
+  const items = await addGraffitiBatch(built, wallId);
+  return {
+    outcome: "added",
+    groupId: items[0].groupId!,
+    items,
+    moderation,
+    normalized: prepared.map((item) => item.normalized)
+  };
+}
+
+/**
+ * Applies an update_graffiti patch; throws when the wall has no item with that
+ * id. When payer is given, any growth in the item's coverage (a bigger sticker,
+ * a longer tag) is charged to their paint.
+ */
+export async function editGraffiti(
+  wallId: string,
+  id: string,
+  args: GraffitiPatchArgs,
+  payer?: ClientIdentity
+): Promise<EditOutcome> {
+  if (args.text !== undefined) {
+    // Edits go live immediately, so anything short of a clean pass is refused.
+    const moderation = await moderateGraffiti({ type: "text", text: args.text });
+    if (moderation.decision !== "accepted") {
+      return { outcome: "rejected", moderation: { ...moderation, decision: "rejected" } };
+    }
+  }
+
+  const { patch, normalized } = toGraffitiPatch(args);
+  if (payer) {
+    const current = await findGraffitiItem(id, wallId);
+    if (!current) {
+      throw new NotFoundError(`No graffiti ${id} on wall "${wallId}".`);
+    }
+
+    const growth = estimateCoverage(applyPatch(current, patch)) - estimateCoverage(current);
+    if (growth > 0) {
+      await consumePaint(payer, wallId, growth, 0);
+    }
+  }
+
+  const item = await updateGraffiti(id, patch, wallId);
+  if (!item) {
+    throw new NotFoundError(`No graffiti ${id} on wall "${wallId}".`);
+  }
+
+  return { outcome: "updated", item, normalized };
+}
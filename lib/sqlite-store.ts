@@ -0,0 +1,228 @@
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import type { GraffitiItem } from "./graffiti.ts";
+import { GRAFFITI_SCHEMA_VERSION, assertReadableVersion, checkRecord, migrateRecord } from "./item-schema.ts";
+import type { GraffitiStore, GraffitiUpdater, TimeRange } from "./store.ts";
+
+type ItemRow = {
+  data: string;
+};
+
+type StoredRow = ItemRow & {
+  rowid: number;
+};
+
+type QuarantineRow = {
+  record: string;
+  issues: string;
+  quarantined_at: string;
+};
+
+function parseRecord(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+export function createSqliteStore(filePath: string): GraffitiStore {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Loaded on demand so the JSON backend never pulls in the experimental sqlite module.
+  const { DatabaseSync } = process.getBuiltinModule("node:sqlite");
+  const db = new DatabaseSync(filePath);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA busy_timeout = 5000;
+    CREATE TABLE IF NOT EXISTS graffiti (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS graffiti_created_at ON graffiti (created_at);
+    CREATE TABLE IF NOT EXISTS graffiti_quarantine (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      record TEXT NOT NULL,
+      issues TEXT NOT NULL,
+      quarantined_at TEXT NOT NULL
+    );
+  `);
+
+  const listStatement = db.prepare(
+    `SELECT rowid, data FROM graffiti
+     WHERE (:since IS NULL OR created_at >= :since) AND (:until IS NULL OR created_at <= :until)
+     ORDER BY created_at, rowid`
+  );
+  const getStatement = db.prepare("SELECT data FROM graffiti WHERE id = ?");
+  const insertStatement = db.prepare("INSERT INTO graffiti (id, created_at, data) VALUES (?, ?, ?)");
+  const updateStatement = db.prepare("UPDATE graffiti SET created_at = ?, data = ? WHERE id = ?");
+  const deleteStatement = db.prepare("DELETE FROM graffiti WHERE id = ?");
+  const deleteAllStatement = db.prepare("DELETE FROM graffiti");
+  const rewriteRowStatement = db.prepare("UPDATE graffiti SET created_at = ?, data = ? WHERE rowid = ?");
+  const deleteRowStatement = db.prepare("DELETE FROM graffiti WHERE rowid = ?");
+  const quarantineStatement = db.prepare(
+    "INSERT INTO graffiti_quarantine (record, issues, quarantined_at) VALUES (?, ?, ?)"
+  );
+  const listQuarantineStatement = db.prepare(
+    "SELECT record, issues, quarantined_at FROM graffiti_quarantine ORDER BY id"
+  );
+
+  // BEGIN IMMEDIATE takes the write lock up front, so a read-modify-write cannot
+  // interleave with a writer in another process sharing the same database file.
+  function transaction<T>(task: () => T): T {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = task();
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // Migrates rows stored at the given version and checks them. Rows a migration
+  // changed are rewritten; rows that fail move to graffiti_quarantine. Must run
+  // inside a transaction.
+  function sweep(rows: StoredRow[], version: number): GraffitiItem[] {
+    const items: GraffitiItem[] = [];
+    const quarantinedAt = new Date().toISOString();
+
+    for (const row of rows) {
+      const result = checkRecord(migrateRecord(parseRecord(row.data), version));
+      if ("item" in result) {
+        if (version < GRAFFITI_SCHEMA_VERSION) {
+          rewriteRowStatement.run(result.item.createdAt, JSON.stringify(result.item), row.rowid);
+        }
+        items.push(result.item);
+      } else {
+        quarantineStatement.run(row.data, JSON.stringify(result.issues), quarantinedAt);
+        deleteRowStatement.run(row.rowid);
+      }
+    }
+
+    return items;
+  }
+
+  // The schema version lives in user_version; a new database starts at 0, which
+  // is harmless because it has no rows to migrate.
+  transaction(() => {
+    const { user_version: version } = db.prepare("PRAGMA user_version").get() as { user_version: number };
+    assertReadableVersion(version, filePath);
+    sweep(db.prepare("SELECT rowid, data FROM graffiti").all() as StoredRow[], version);
+    db.exec(`PRAGMA user_version = ${GRAFFITI_SCHEMA_VERSION}`);
+  });
+
+  function readItem(id: string): GraffitiItem | null {
+    const row = getStatement.get(id) as ItemRow | undefined;
+    return row ? (JSON.parse(row.data) as GraffitiItem) : null;
+  }
+
+  return {
+    async list(range: TimeRange = {}) {
+      const params = { since: range.since ?? null, until: range.until ?? null };
+      const rows = listStatement.all(params) as StoredRow[];
+      const items: GraffitiItem[] = [];
+      for (const row of rows) {
+        const result = checkRecord(parseRecord(row.data));
+        if (!("item" in result)) {
+          // Someone wrote a bad row behind our back; set it aside and read again.
+          return transaction(() => sweep(listStatement.all(params) as StoredRow[], GRAFFITI_SCHEMA_VERSION));
+        }
+        items.push(result.item);
+      }
+      return items;
+    },
+
+    async add(item: GraffitiItem) {
+      insertStatement.run(item.id, item.createdAt, JSON.stringify(item));
+      return item;
+    },
+
+    async update(id: string, updater: GraffitiUpdater) {
+      return transaction(() => {
+        const current = readItem(id);
+        if (!current) {
+          return null;
+        }
+
+        const next = updater(current);
+        updateStatement.run(next.createdAt, JSON.stringify(next), id);
+        return next;
+      });
+    },
+
+    async remove(id: string) {
+      return transaction(() => {
+        const current = readItem(id);
+        if (!current) {
+          return null;
+        }
+
+        deleteStatement.run(id);
+        return current;
+      });
+    },
+
+    async addMany(items: GraffitiItem[]) {
+      return transaction(() => {
+        for (const item of items) {
+          insertStatement.run(item.id, item.createdAt, JSON.stringify(item));
+        }
+        return items;
+      });
+    },
+
+    async updateMany(ids: string[], updater: GraffitiUpdater) {
+      return transaction(() => {
+        const updated: GraffitiItem[] = [];
+        for (const id of ids) {
+          const current = readItem(id);
+          if (!current) {
+            continue;
+          }
+
+          const next = updater(current);
+          updateStatement.run(next.createdAt, JSON.stringify(next), id);
+          updated.push(next);
+        }
+        return updated;
+      });
+    },
+
+    async removeMany(ids: string[]) {
+      return transaction(() => {
+        const removed: GraffitiItem[] = [];
+        for (const id of ids) {
+          const current = readItem(id);
+          if (current) {
+            deleteStatement.run(id);
+            removed.push(current);
+          }
+        }
+        return removed;
+      });
+    },
+
+    async replaceAll(items: GraffitiItem[]) {
+      return transaction(() => {
+        const rows = listStatement.all({ since: null, until: null }) as StoredRow[];
+        deleteAllStatement.run();
+        for (const item of items) {
+          insertStatement.run(item.id, item.createdAt, JSON.stringify(item));
+        }
+        return rows.map((row) => JSON.parse(row.data) as GraffitiItem);
+      });
+    },
+
+    async quarantined() {
+      const rows = listQuarantineStatement.all() as QuarantineRow[];
+      return rows.map((row) => ({
+        record: parseRecord(row.record),
+        issues: JSON.parse(row.issues) as string[],
+        quarantinedAt: row.quarantined_at
+      }));
+    }
+  };
+}
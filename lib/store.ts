@@ -0,0 +1,97 @@
+import path from "node:path";
+import { ValidationError } from "./errors.ts";
+import type { GraffitiItem } from "./graffiti.ts";
+import type { QuarantinedRecord } from "./item-schema.ts";
+import { createJsonFileStore } from "./json-store.ts";
+import { createSqliteStore } from "./sqlite-store.ts";
+import { DEFAULT_WALL_ID, WALL_ID_PATTERN } from "./walls.ts";
+
+/** Bounds in the form toISOString() gives, like createdAt, since stores compare them as strings. */
+export type TimeRange = {
+  since?: string;
+  until?: string;
+};
+
+export type GraffitiUpdater = (item: GraffitiItem) => GraffitiItem;
+
+export type GraffitiStore = {
+  list(range?: TimeRange): Promise<GraffitiItem[]>;
+  add(item: GraffitiItem): Promise<GraffitiItem>;
+  update(id: string, updater: GraffitiUpdater): Promise<GraffitiItem | null>;
+  remove(id: string): Promise<GraffitiItem | null>;
+  /** Adds all the items in one write, so readers never see only some of them. */
+  addMany(items: GraffitiItem[]): Promise<GraffitiItem[]>;
+  /** Updates the listed items in one write; ids that are not stored are skipped. */
+  updateMany(ids: string[], updater: GraffitiUpdater): Promise<GraffitiItem[]>;
+  /** Removes the listed items in one write and returns the ones that existed. */
+  removeMany(ids: string[]): Promise<GraffitiItem[]>;
+  /** Swaps the whole wall for the given items in one write and returns the ones it replaced. */
+  replaceAll(items: GraffitiItem[]): Promise<GraffitiItem[]>;
+  /** Stored records that failed validation on load and are kept out of every other method. */
+  quarantined(): Promise<QuarantinedRecord[]>;
+};
+
+export type StoreKind = "json" | "sqlite";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+const STORES_KEY = Symbol.for("leftys.graffitiStores");
+
+// Next.js bundles its own copy of lib/ next to the one loaded by server.ts. Both
+// must share one store per wall, or the JSON store's write queue would not see
+// the other copy's writes.
+function getStores(): Map<string, GraffitiStore> {
+  const registry = globalThis as typeof globalThis & { [STORES_KEY]?: Map<string, GraffitiStore> };
+  registry[STORES_KEY] ??= new Map();
+  return registry[STORES_KEY];
+}
+
+function resolveStoreKind(): StoreKind {
+  const raw = (process.env.GRAFFITI_STORE ?? "json").trim().toLowerCase();
+  if (raw === "json" || raw === "sqlite") {
+    return raw;
+  }
+
+  throw new Error(`Unknown GRAFFITI_STORE "${raw}". Expected one of: json, sqlite`);
+}
+
+export function isWithinRange(createdAt: string, range: TimeRange = {}): boolean {
+  if (range.since && createdAt < range.since) {
+    return false;
+  }
+
+  if (range.until && createdAt > range.until) {
+    return false;
+  }
+
+  return true;
+}
+
+function storeBasePath(wallId: string): string {
+  if (wallId === DEFAULT_WALL_ID) {
+    return path.join(DATA_DIR, "graffiti");
+  }
+
+  if (!WALL_ID_PATTERN.test(wallId)) {
+    throw new ValidationError(`Invalid wall id "${wallId}".`);
+  }
+
+  return path.join(DATA_DIR, "walls", wallId);
+}
+
+export function getGraffitiStore(wallId: string = DEFAULT_WALL_ID): GraffitiStore {
+  const stores = getStores();
+  const cached = stores.get(wallId);
+  if (cached) {
+    return cached;
+  }
+
+  const basePath = storeBasePath(wallId);
+  const store =
+    resolveStoreKind() === "sqlite"
+      ? createSqliteStore(`${basePath}.db`)
+      : createJsonFileStore(`${basePath}.json`);
+
+  stores.set(wallId, store);
+  return store;
+}
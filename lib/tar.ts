@@ -0,0 +1,113 @@
+import { ValidationError } from "./errors.ts";
+
+// Just enough of the ustar format to pack and unpack wall archives: regular
+// files with short names, no links, directories or extended headers. Any tar
+// tool can list and extract what this writes.
+
+export type TarEntry = {
+  name: string;
+  data: Buffer;
+};
+
+const BLOCK_SIZE = 512;
+const MAX_NAME_BYTES = 100;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, length, "utf8");
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, `${value.toString(8).padStart(length - 1, "0")}\0`, offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const raw = readString(header, offset, length).trim();
+  return raw === "" ? 0 : Number.parseInt(raw, 8);
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let index = 0; index < BLOCK_SIZE; index += 1) {
+    // The checksum field itself counts as eight spaces.
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum;
+}
+
+function paddingFor(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+function entryHeader(entry: TarEntry, mtime: number): Buffer {
+  if (Buffer.byteLength(entry.name) > MAX_NAME_BYTES) {
+    throw new Error(`Archive entry name "${entry.name}" is longer than ${MAX_NAME_BYTES} bytes.`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, entry.name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.data.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  writeString(header, "0", 156, 1);
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+  writeString(header, `${checksum(header).toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return header;
+}
+
+export function createTar(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    blocks.push(entryHeader(entry, seconds), entry.data, Buffer.alloc(paddingFor(entry.data.length)));
+  }
+
+  // Two empty blocks mark the end of the archive.
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/** Reads the regular files out of a tar archive; other entry types are skipped. */
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new ValidationError(`Archive is corrupt: bad header checksum at byte ${offset}.`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const dataStart = offset + BLOCK_SIZE;
+    if (!Number.isSafeInteger(size) || dataStart + size > archive.length) {
+      throw new ValidationError(`Archive is corrupt: entry at byte ${offset} runs past the end.`);
+    }
+
+    const type = readString(header, 156, 1);
+    if (type === "0" || type === "") {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      entries.push({
+        name: prefix ? `${prefix}/${name}` : name,
+        data: archive.subarray(dataStart, dataStart + size)
+      });
+    }
+
+    offset = dataStart + size + paddingFor(size);
+  }
+
+  return entries;
+}
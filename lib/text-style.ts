@@ -0,0 +1,183 @@
+import { fontStyle } from "./fonts.ts";
+import type { GraffitiText } from "./graffiti.ts";
+
+// Shared by the sharp snapshot renderer and the browser wall, so it must stay
+// free of Node-only imports.
+
+export const TEXT_ALIGNS = ["left", "center", "right"] as const;
+export const TEXT_EFFECTS = ["spray", "drip"] as const;
+
+export type TextAlign = (typeof TEXT_ALIGNS)[number];
+export type TextEffect = (typeof TEXT_EFFECTS)[number];
+
+export type TextStroke = {
+  color: string;
+  width: number;
+};
+
+export type TextShadow = {
+  color: string;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+};
+
+export type TextGradient = {
+  /** Two or more colors spread evenly along the gradient. */
+  colors: string[];
+  /** Degrees clockwise from left-to-right. */
+  angle: number;
+};
+
+/** Optional styling on top of a text item's font, color and size. */
+export type TextStyle = {
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  letterSpacing?: number;
+  /** Which end of each line sits on position.x. */
+  align?: TextAlign;
+  /** Replaces color as the fill when set. */
+  gradient?: TextGradient;
+  effect?: TextEffect;
+};
+
+export const TEXT_STYLE_FIELDS = ["stroke", "shadow", "letterSpacing", "align", "gradient", "effect"] as const;
+
+const TEXT_ANCHORS: Record<TextAlign, string> = {
+  left: "start",
+  center: "middle",
+  right: "end"
+};
+
+// SVG text sits on its baseline; shifting by this much of the font size centres
+// each line on its y coordinate the way the old line-height: 1 box did.
+const BASELINE_SHIFT_EM = 0.35;
+
+export function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+/**
+ * An id for a def inside the item's markup. Item ids can come from imported
+ * archives, so anything beyond letters, digits and dashes is spelled out as
+ * _hex_, which keeps both the attribute and url(#...) references intact.
+ */
+function defId(prefix: string, itemId: string): string {
+  return `${prefix}-${itemId.replace(/[^A-Za-z0-9-]/g, (char) => `_${char.codePointAt(0)!.toString(16)}_`)}`;
+}
+
+function gradientDef(id: string, gradient: TextGradient): string {
+  const stops = gradient.colors
+    .map((color, index) => {
+      const offset = gradient.colors.length === 1 ? 0 : index / (gradient.colors.length - 1);
+      return `<stop offset="${offset}" stop-color="${escapeXml(color)}" />`;
+    })
+    .join("");
+
+  return `<linearGradient id="${id}" gradientTransform="rotate(${gradient.angle} 0.5 0.5)">${stops}</linearGradient>`;
+}
+
+/** Filter primitives ending in a result named "painted". */
+function effectPrimitives(effect: TextEffect | undefined, size: number): string {
+  if (!effect) {
+    return `<feMerge result="painted"><feMergeNode in="SourceGraphic" /></feMerge>`;
+  }
+
+  // Roughened edges plus a faint halo of overspray.
+  const spray = [
+    `<feTurbulence type="fractalNoise" baseFrequency="0.9" numOctaves="2" seed="7" result="grain" />`,
+    `<feDisplacementMap in="SourceGraphic" in2="grain" scale="${size * 0.08}" xChannelSelector="R" yChannelSelector="G" result="rough" />`,
+    `<feGaussianBlur in="rough" stdDeviation="${size * 0.05}" result="mist" />`,
+    `<feComponentTransfer in="mist" result="overspray"><feFuncA type="linear" slope="0.45" /></feComponentTransfer>`
+  ];
+
+  if (effect === "spray") {
+    return [
+      ...spray,
+      `<feMerge result="painted"><feMergeNode in="overspray" /><feMergeNode in="rough" /></feMerge>`
+    ].join("");
+  }
+
+  // Paint smeared downwards, then cut into thin runs by vertical streak noise.
+  return [
+    ...spray,
+    `<feGaussianBlur in="rough" stdDeviation="0 ${size * 0.4}" result="smear" />`,
+    `<feOffset in="smear" dy="${size * 0.45}" result="sag" />`,
+    `<feTurbulence type="fractalNoise" baseFrequency="0.18 0.004" numOctaves="1" seed="3" result="streaks" />`,
+    `<feComposite in="sag" in2="streaks" operator="arithmetic" k1="2.4" result="runs" />`,
+    `<feComponentTransfer in="runs" result="drips"><feFuncA type="discrete" tableValues="0 0 0 1" /></feComponentTransfer>`,
+    `<feMerge result="painted"><feMergeNode in="drips" /><feMergeNode in="overspray" /><feMergeNode in="rough" /></feMerge>`
+  ].join("");
+}
+
+function filterDef(id: string, item: GraffitiText): string {
+  const shadow = item.shadow
+    ? [
+        `<feGaussianBlur in="painted" stdDeviation="${item.shadow.blur}" result="shadowBlur" />`,
+        `<feOffset in="shadowBlur" dx="${item.shadow.offsetX}" dy="${item.shadow.offsetY}" result="shadowOffset" />`,
+        `<feFlood flood-color="${escapeXml(item.shadow.color)}" result="shadowColor" />`,
+        `<feComposite in="shadowColor" in2="shadowOffset" operator="in" result="shadow" />`,
+        `<feMerge><feMergeNode in="shadow" /><feMergeNode in="painted" /></feMerge>`
+      ].join("")
+    : "";
+
+  return `<filter id="${id}" x="-50%" y="-50%" width="200%" height="250%" color-interpolation-filters="sRGB">${effectPrimitives(item.effect, item.size)}${shadow}</filter>`;
+}
+
+/**
+ * SVG markup for a text item drawn around the origin, without its position,
+ * rotation or opacity, which the caller applies on an enclosing element.
+ */
+export function textItemSvg(item: GraffitiText): string {
+  const lines = item.text.split(/\r?\n/);
+  const startY = -((lines.length - 1) * item.size) / 2 + item.size * BASELINE_SHIFT_EM;
+  const defs: string[] = [];
+  const font = fontStyle(item.font);
+  const attributes = [
+    `text-anchor="${TEXT_ANCHORS[item.align ?? "center"]}"`,
+    `font-family="${escapeXml(font.family)}"`,
+    `font-size="${item.size}"`
+  ];
+
+  if (font.weight !== null) {
+    attributes.push(`font-weight="${font.weight}"`);
+  }
+
+  if (item.gradient) {
+    const gradientId = defId("gradient", item.id);
+    defs.push(gradientDef(gradientId, item.gradient));
+    attributes.push(`fill="url(#${gradientId})"`);
+  } else {
+    attributes.push(`fill="${escapeXml(item.color)}"`);
+  }
+
+  if (item.stroke) {
+    attributes.push(
+      `stroke="${escapeXml(item.stroke.color)}"`,
+      `stroke-width="${item.stroke.width}"`,
+      `stroke-linejoin="round"`,
+      `paint-order="stroke"`
+    );
+  }
+
+  if (item.letterSpacing) {
+    attributes.push(`letter-spacing="${item.letterSpacing}"`);
+  }
+
+  if (item.effect || item.shadow) {
+    const filterId = defId("filter", item.id);
+    defs.push(filterDef(filterId, item));
+    attributes.push(`filter="url(#${filterId})"`);
+  }
+
+  const tspans = lines
+    .map((line, index) => `<tspan x="0" y="${startY + index * item.size}">${escapeXml(line)}</tspan>`)
+    .join("");
+
+  return `${defs.length > 0 ? `<defs>${defs.join("")}</defs>` : ""}<text ${attributes.join(" ")}>${tspans}</text>`;
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import { ValidationError } from "./errors.ts";
+import { getGraffiti, renderWall, snapshotKeyFor, snapshotLocation } from "./graffiti.ts";
+import type { GraffitiItem } from "./graffiti.ts";
+import { DEFAULT_WALL_ID, requireWall } from "./walls.ts";
+
+export type TimelapseFormat = "gif" | "webp";
+
+export type TimelapseOptions = {
+  /** Add a frame after every N new items. Defaults to 1, or as many as keep the timelapse within MAX_FRAMES. */
+  everyItems?: number;
+  /** Add a frame every N minutes of wall history. Takes precedence over everyItems. */
+  everyMinutes?: number;
+  format?: TimelapseFormat;
+  frameDelayMs?: number;
+  /** Output width in pixels; height follows the background's aspect ratio. */
+  width?: number;
+};
+
+type TimelapseResult = {
+  wallId: string;
+  imageUrl: string;
+  format: TimelapseFormat;
+  frameCount: number;
+  width: number;
+  height: number;
+  fromCache: boolean;
+  timelapseKey: string;
+};
+
+const MAX_FRAMES = 120;
+const DEFAULT_WIDTH = 768;
+const DEFAULT_FRAME_DELAY_MS = 400;
+const FINAL_FRAME_HOLD = 5;
+
+/** Throws when a timelapse of frameCount frames, the opening bare-wall frame included, is too long. */
+function assertFrameCount(frameCount: number): void {
+  if (frameCount > MAX_FRAMES) {
+    throw new ValidationError(
+      `Timelapse would need ${frameCount} frames (max ${MAX_FRAMES}); use a larger every_items or every_minutes.`
+    );
+  }
+}
+
+/** The "until" timestamp of every frame after the opening bare-wall frame. */
+function frameCutoffs(timeline: GraffitiItem[], options: TimelapseOptions): string[] {
+  const cutoffs: string[] = [];
+  const last = timeline[timeline.length - 1].createdAt;
+
+  if (options.everyMinutes) {
+    const stepMs = options.everyMinutes * 60_000;
+    const firstMs = Date.parse(timeline[0].createdAt);
+    const lastMs = Date.parse(last);
+    // Counted before anything is allocated, so a tiny step over a long history fails fast.
+    assertFrameCount(Math.ceil((lastMs - firstMs) / stepMs) + 2);
+    for (let time = firstMs; time < lastMs; time += stepMs) {
+      cutoffs.push(new Date(time).toISOString());
+    }
+  } else {
+    // Without an explicit step, long histories are spread over the frames there are (less the bare-wall one).
+    const step = options.everyItems ?? Math.max(1, Math.ceil(timeline.length / (MAX_FRAMES - 1)));
+    for (let index = step - 1; index < timeline.length - 1; index += step) {
+      cutoffs.push(timeline[index].createdAt);
+    }
+  }
+
+  cutoffs.push(last);
+  return cutoffs.filter((cutoff, index) => cutoff !== cutoffs[index - 1]);
+}
+
+/**
+ * Renders a wall's history as an animated GIF or WebP, one frame per step of
+ * items or minutes, starting from the bare wall.
+ */
+export async function generateTimelapse(
+  wallId: string = DEFAULT_WALL_ID,
+  options: TimelapseOptions = {}
+): Promise<TimelapseResult> {
+  const wall = await requireWall(wallId);
+  const items = await getGraffiti(wallId);
+  if (items.length === 0) {
+    throw new ValidationError(`Wall "${wallId}" has no graffiti to animate yet.`);
+  }
+
+  const format = options.format ?? "webp";
+  const frameDelayMs = options.frameDelayMs ?? DEFAULT_FRAME_DELAY_MS;
+  const width = options.width ?? DEFAULT_WIDTH;
+  const timeline = [...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const cutoffs = frameCutoffs(timeline, options);
+  assertFrameCount(cutoffs.length + 1);
+
+  const optionsDigest = createHash("sha1")
+    .update(JSON.stringify({ cutoffs, format, frameDelayMs, width }))
+    .digest("hex")
+    .slice(0, 8);
+  const timelapseKey = `${snapshotKeyFor(items)}-${optionsDigest}`;
+  const { outPath, imageUrl } = await snapshotLocation(wallId, `timelapse-${timelapseKey}.${format}`);
+  const frameCount = cutoffs.length + 1;
+
+  try {
+    await fs.access(outPath);
+    const meta = await sharp(outPath).metadata();
+    return {
+      wallId,
+      imageUrl,
+      format,
+      frameCount,
+      width: meta.width ?? 0,
+      height: meta.pageHeight ?? meta.height ?? 0,
+      fromCache: true,
+      timelapseKey
+    };
+  } catch {
+    // No cached timelapse for this history; render a new one.
+  }
+
+  const frames: Buffer[] = [];
+  for (const cutoff of ["", ...cutoffs]) {
+    const frameItems = cutoff ? items.filter((item) => item.createdAt <= cutoff) : [];
+    const rendered = await renderWall(wall, frameItems);
+    frames.push(await sharp(rendered.buffer).resize({ width }).png().toBuffer());
+  }
+
+  const delay = frames.map((_, index) =>
+    index === frames.length - 1 ? frameDelayMs * FINAL_FRAME_HOLD : frameDelayMs
+  );
+  const animation = sharp(frames, { join: { animated: true } });
+  const output =
+    format === "gif" ? animation.gif({ delay, loop: 0 }) : animation.webp({ delay, loop: 0 });
+  const { data, info } = await output.toBuffer({ resolveWithObject: true });
+  await fs.writeFile(outPath, data);
+
+  return {
+    wallId,
+    imageUrl,
+    format,
+    frameCount,
+    width: info.width,
+    height: info.pageHeight ?? info.height,
+    fromCache: false,
+    timelapseKey
+  };
+}
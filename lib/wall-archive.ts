@@ -0,0 +1,266 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { ValidationError } from "./errors.ts";
+import { getAllGraffiti, loadImageSource, loadWallBackground, restoreGraffiti, restoreUpload } from "./graffiti.ts";
+import type { GraffitiItem } from "./graffiti.ts";
+import { GRAFFITI_SCHEMA_VERSION, assertReadableVersion, checkRecords } from "./item-schema.ts";
+import { createTar, readTar } from "./tar.ts";
+import type { TarEntry } from "./tar.ts";
+import { createWall, getWall, requireWall } from "./walls.ts";
+
+// A wall archive is a gzipped tar holding:
+//   manifest.json          schema version, the wall's id and name, export time
+//   items.json             every item, pending ones included, as stored
+//   uploads/<file>         each /uploads image an item points at
+//   background/<file>      the wall's background image
+
+/** Bump when the archive layout changes; imports refuse archives newer than this. */
+export const WALL_ARCHIVE_VERSION = 1;
+
+const MAX_UNPACKED_BYTES = 512 * 1024 * 1024;
+const UPLOAD_URL_PATTERN = /^\/uploads\/([\w-]+\.[a-z0-9]+)$/i;
+
+export type WallImportMode = "merge" | "replace";
+
+type ArchiveManifest = {
+  schemaVersion: number;
+  /** Stored item format of items.json; see item-schema.ts. */
+  itemSchemaVersion?: number;
+  exportedAt: string;
+  wall: {
+    id: string;
+    name: string;
+    createdAt: string;
+  };
+  /** Path of the background image inside the archive. */
+  background: string;
+  itemCount: number;
+};
+
+export type WallExport = {
+  archive: Buffer;
+  fileName: string;
+  itemCount: number;
+  uploadCount: number;
+  /** Uploads items point at that were no longer on disk, so are not in the archive. */
+  missingUploads: string[];
+};
+
+export type WallImportOptions = {
+  /** Wall to import into; defaults to the id the archive was exported from. Created if missing. */
+  wallId?: string;
+  mode?: WallImportMode;
+};
+
+export type WallImportReport = {
+  wallId: string;
+  mode: WallImportMode;
+  createdWall: boolean;
+  imported: number;
+  replaced: number;
+  uploadsRestored: number;
+  /** Uploads items point at that the archive did not carry; those items keep their old URL. */
+  missingUploads: string[];
+};
+
+function uploadFileName(imageUrl: string): string | null {
+  return imageUrl.match(UPLOAD_URL_PATTERN)?.[1] ?? null;
+}
+
+function referencedUploads(items: GraffitiItem[]): string[] {
+  const names = new Set<string>();
+  for (const item of items) {
+    const name = item.type === "image" ? uploadFileName(item.imageUrl) : null;
+    if (name) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+function jsonEntry(name: string, value: unknown): TarEntry {
+  return { name, data: Buffer.from(JSON.stringify(value, null, 2), "utf8") };
+}
+
+/** Packs a wall, its items, their uploads and its background into one .tar.gz. */
+export async function exportWall(wallId: string): Promise<WallExport> {
+  const wall = await requireWall(wallId);
+  const items = await getAllGraffiti(wallId);
+  const background = await loadWallBackground(wall);
+
+  const uploads: TarEntry[] = [];
+  const missingUploads: string[] = [];
+  for (const name of referencedUploads(items)) {
+    const data = await loadImageSource(`/uploads/${name}`);
+    if (data) {
+      uploads.push({ name: `uploads/${name}`, data });
+    } else {
+      missingUploads.push(name);
+    }
+  }
+
+  const exportedAt = new Date();
+  const manifest: ArchiveManifest = {
+    schemaVersion: WALL_ARCHIVE_VERSION,
+    itemSchemaVersion: GRAFFITI_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    wall: { id: wall.id, name: wall.name, createdAt: wall.createdAt },
+    background: `background/${background.fileName}`,
+    itemCount: items.length
+  };
+
+  const tar = createTar(
+    [
+      jsonEntry("manifest.json", manifest),
+      jsonEntry("items.json", items),
+      { name: manifest.background, data: background.bytes },
+      ...uploads
+    ],
+    exportedAt
+  );
+
+  return {
+    archive: gzipSync(tar),
+    fileName: `${wall.id}-${manifest.exportedAt.replace(/[:.]/g, "-")}.tar.gz`,
+    itemCount: items.length,
+    uploadCount: uploads.length,
+    missingUploads
+  };
+}
+
+function unpack(archive: Buffer): Map<string, Buffer> {
+  let tar = archive;
+  if (archive[0] === 0x1f && archive[1] === 0x8b) {
+    try {
+      tar = gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BYTES });
+    } catch {
+      throw new ValidationError(`Archive could not be decompressed (it may be over ${MAX_UNPACKED_BYTES} bytes unpacked).`);
+    }
+  }
+
+  return new Map(readTar(tar).map((entry) => [entry.name, entry.data]));
+}
+
+function readJsonEntry(files: Map<string, Buffer>, name: string): unknown {
+  const data = files.get(name);
+  if (!data) {
+    throw new ValidationError(`Not a wall archive: ${name} is missing.`);
+  }
+
+  try {
+    return JSON.parse(data.toString("utf8"));
+  } catch {
+    throw new ValidationError(`Wall archive ${name} is not valid JSON.`);
+  }
+}
+
+function readManifest(files: Map<string, Buffer>): ArchiveManifest {
+  const manifest = readJsonEntry(files, "manifest.json") as Partial<ArchiveManifest>;
+  const version = manifest.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ValidationError("Wall archive manifest.json has no valid schemaVersion.");
+  }
+
+  if (version > WALL_ARCHIVE_VERSION) {
+    throw new ValidationError(
+      `Wall archive schema version ${version} is newer than this server understands (up to ${WALL_ARCHIVE_VERSION}).`
+    );
+  }
+
+  if (typeof manifest.wall?.id !== "string" || typeof manifest.wall.name !== "string") {
+    throw new ValidationError("Wall archive manifest.json does not describe a wall.");
+  }
+
+  return manifest as ArchiveManifest;
+}
+
+function readItems(files: Map<string, Buffer>, manifest: ArchiveManifest): GraffitiItem[] {
+  const records = readJsonEntry(files, "items.json");
+  if (!Array.isArray(records)) {
+    throw new ValidationError("Wall archive items.json is not a list of items.");
+  }
+
+  // Archives from before items were versioned hold items in the version 1 format.
+  const version = manifest.itemSchemaVersion ?? 1;
+  assertReadableVersion(version, "Wall archive items.json");
+
+  const { items, quarantined } = checkRecords(records, version);
+  if (quarantined.length > 0) {
+    const index = records.indexOf(quarantined[0].record);
+    throw new ValidationError(
+      `Wall archive items.json entry ${index} is invalid (${quarantined[0].issues.join("; ")}); nothing was imported.`
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Gives every archived item a fresh id, so a merge never collides with items
+ * already on the wall, and points images at their restored uploads. Items that
+ * shared a groupId still share one, but not the one they had before.
+ */
+function remapItems(items: GraffitiItem[], uploadUrls: Map<string, string>): GraffitiItem[] {
+  const groupIds = new Map<string, string>();
+  return items.map((item): GraffitiItem => {
+    let groupId = item.groupId;
+    if (groupId) {
+      groupId = groupIds.get(groupId) ?? randomUUID();
+      groupIds.set(item.groupId as string, groupId);
+    }
+
+    const next = { ...item, id: randomUUID(), groupId };
+    if (next.type === "image") {
+      next.imageUrl = uploadUrls.get(next.imageUrl) ?? next.imageUrl;
+    }
+    return next;
+  });
+}
+
+/**
+ * Restores a wall archive. "merge" adds the archived items on top of what the
+ * wall already holds; "replace" swaps the wall's items for them in one write.
+ * The archive's background is only used when the import creates the wall.
+ */
+export async function importWall(archive: Buffer, options: WallImportOptions = {}): Promise<WallImportReport> {
+  const files = unpack(archive);
+  const manifest = readManifest(files);
+  const archived = readItems(files, manifest);
+  const mode = options.mode ?? "merge";
+  const wallId = options.wallId ?? manifest.wall.id;
+
+  const uploadUrls = new Map<string, string>();
+  const missingUploads: string[] = [];
+  for (const name of referencedUploads(archived)) {
+    const data = files.get(`uploads/${name}`);
+    if (data) {
+      uploadUrls.set(`/uploads/${name}`, await restoreUpload(name, data));
+    } else {
+      missingUploads.push(name);
+    }
+  }
+
+  let createdWall = false;
+  if (!(await getWall(wallId))) {
+    const backgroundBytes = files.get(manifest.background);
+    const background = backgroundBytes
+      ? await restoreUpload(path.posix.basename(manifest.background), backgroundBytes)
+      : undefined;
+    await createWall({ id: wallId, name: manifest.wall.name, background });
+    createdWall = true;
+  }
+
+  const items = remapItems(archived, uploadUrls);
+  const replaced = await restoreGraffiti(items, wallId, mode);
+
+  return {
+    wallId,
+    mode,
+    createdWall,
+    imported: items.length,
+    replaced: replaced.length,
+    uploadsRestored: uploadUrls.size,
+    missingUploads
+  };
+}
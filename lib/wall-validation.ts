@@ -0,0 +1,100 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { findFont } from "./fonts.ts";
+import { UPLOAD_DIR, getAllGraffiti } from "./graffiti.ts";
+import type { GraffitiItem } from "./graffiti.ts";
+import { GRAFFITI_SCHEMA_VERSION } from "./item-schema.ts";
+import type { QuarantinedRecord } from "./item-schema.ts";
+import { getGraffitiStore } from "./store.ts";
+import { requireWall } from "./walls.ts";
+
+export type WallProblem = {
+  severity: "error" | "warning";
+  /** Null when the record is too broken to carry an id. */
+  itemId: string | null;
+  message: string;
+};
+
+export type WallValidationReport = {
+  wallId: string;
+  schemaVersion: number;
+  itemCount: number;
+  pendingCount: number;
+  /** Records that failed validation on load; they are kept out of the wall until fixed by hand. */
+  quarantined: QuarantinedRecord[];
+  problems: WallProblem[];
+};
+
+function quarantinedId(record: unknown): string | null {
+  const id = (record as { id?: unknown } | null)?.id;
+  return typeof id === "string" ? id : null;
+}
+
+async function uploadExists(imageUrl: string): Promise<boolean> {
+  const name = imageUrl.match(/^\/uploads\/([\w-]+\.[a-z0-9]+)$/i)?.[1];
+  if (!name) {
+    // Data URLs and remote images from before downloads were stored are not checked.
+    return true;
+  }
+
+  try {
+    await fs.access(path.join(UPLOAD_DIR, name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function itemProblems(item: GraffitiItem): Promise<WallProblem[]> {
+  const problems: WallProblem[] = [];
+  const warn = (message: string) => problems.push({ severity: "warning", itemId: item.id, message });
+
+  const { x, y } = item.position;
+  if (x < 0 || x > 100 || y < 0 || y > 100) {
+    warn(`Position (${x}, ${y}) is off the wall.`);
+  }
+
+  if (item.type === "image" && !(await uploadExists(item.imageUrl))) {
+    warn(`Image ${item.imageUrl} is missing from disk, so the item is not drawn in snapshots.`);
+  }
+
+  if (item.type === "text" && !findFont(item.font)) {
+    warn(`Font "${item.font}" is not a bundled font, so how it renders depends on the viewer.`);
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a wall's stored data: records quarantined on load, ids stored more
+ * than once, and items that load but will not render as intended.
+ */
+export async function validateWall(wallId: string): Promise<WallValidationReport> {
+  await requireWall(wallId);
+
+  const items = await getAllGraffiti(wallId);
+  const quarantined = await getGraffitiStore(wallId).quarantined();
+  const problems: WallProblem[] = quarantined.map((entry) => ({
+    severity: "error",
+    itemId: quarantinedId(entry.record),
+    message: `Quarantined: ${entry.issues.join("; ")}`
+  }));
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) {
+      problems.push({ severity: "error", itemId: item.id, message: "The id is stored more than once." });
+    }
+    seen.add(item.id);
+    problems.push(...(await itemProblems(item)));
+  }
+
+  return {
+    wallId,
+    schemaVersion: GRAFFITI_SCHEMA_VERSION,
+    itemCount: items.length,
+    pendingCount: items.filter((item) => item.status === "pending").length,
+    quarantined,
+    problems
+  };
+}
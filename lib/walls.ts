@@ -0,0 +1,97 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { NotFoundError, ValidationError } from "./errors.ts";
+
+export type Wall = {
+  id: string;
+  name: string;
+  background: string;
+  createdAt: string;
+};
+
+export const DEFAULT_WALL_ID = "default";
+export const WALL_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+const WALLS_FILE = path.join(process.cwd(), "data", "walls.json");
+
+const DEFAULT_WALL: Wall = {
+  id: DEFAULT_WALL_ID,
+  name: "Lefty's Bathroom Wall",
+  background: "/leftys-bg.png",
+  createdAt: new Date(0).toISOString()
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+async function readWalls(): Promise<Wall[]> {
+  try {
+    const raw = await fs.readFile(WALLS_FILE, "utf8");
+    return JSON.parse(raw) as Wall[];
+  } catch {
+    return [];
+  }
+}
+
+async function writeWalls(walls: Wall[]): Promise<void> {
+  await fs.mkdir(path.dirname(WALLS_FILE), { recursive: true });
+
+  const tempPath = `${WALLS_FILE}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(walls, null, 2), "utf8");
+  await fs.rename(tempPath, WALLS_FILE);
+}
+
+export async function listWalls(): Promise<Wall[]> {
+  const walls = await readWalls();
+  return [DEFAULT_WALL, ...walls.filter((wall) => wall.id !== DEFAULT_WALL_ID)];
+}
+
+export async function getWall(id: string): Promise<Wall | null> {
+  const walls = await listWalls();
+  return walls.find((wall) => wall.id === id) ?? null;
+}
+
+export async function requireWall(id: string): Promise<Wall> {
+  const wall = await getWall(id);
+  if (!wall) {
+    throw new NotFoundError(`Unknown wall "${id}". Use list_walls to see available walls.`);
+  }
+
+  return wall;
+}
+
+type NewWall = {
+  id: string;
+  name: string;
+  background?: string;
+};
+
+export function createWall(input: NewWall): Promise<Wall> {
+  const task = async () => {
+    if (!WALL_ID_PATTERN.test(input.id)) {
+      throw new ValidationError(
+        `Invalid wall id "${input.id}". Use lowercase letters, digits and dashes (max 63 characters).`
+      );
+    }
+
+    const walls = await readWalls();
+    if (input.id === DEFAULT_WALL_ID || walls.some((wall) => wall.id === input.id)) {
+      throw new ValidationError(`Wall "${input.id}" already exists.`);
+    }
+
+    const wall: Wall = {
+      id: input.id,
+      name: input.name,
+      background: input.background ?? DEFAULT_WALL.background,
+      createdAt: new Date().toISOString()
+    };
+
+    walls.push(wall);
+    await writeWalls(walls);
+    return wall;
+  };
+
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+}
@@ -3,6 +3,7 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 
 const serverUrl = process.env.MCP_SERVER_URL ?? "http://localhost:3334/mcp";
+const apiKey = process.env.MCP_API_KEY;
 
 function parseJsonArg(raw?: string): Record<string, unknown> {
   if (!raw) {
@@ -25,6 +26,15 @@ async function maybeInlineImageBlob(args: Record<string, unknown>): Promise<Reco
   return next;
 }
 
+// Inline images are printed as a length so snapshots don't flood the terminal.
+function shortenImageData(key: string, value: unknown): unknown {
+  if (key === "data" && typeof value === "string" && value.length > 120) {
+    return `<${value.length} base64 chars>`;
+  }
+
+  return value;
+}
+
 async function main() {
   const toolName = process.argv[2];
   const rawArgs = process.argv[3];
@@ -41,7 +51,9 @@ async function main() {
     version: "0.1.0"
   });
 
-  const transport = new StreamableHTTPClientTransport(new URL(serverUrl));
+  const transport = new StreamableHTTPClientTransport(new URL(serverUrl), {
+    requestInit: apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : undefined
+  });
   await client.connect(transport);
 
   const result = await client.callTool({
@@ -49,7 +61,7 @@ async function main() {
     arguments: args
   });
 
-  console.log(JSON.stringify(result, null, 2));
+  console.log(JSON.stringify(result, shortenImageData, 2));
   await client.close();
 }
 
@@ -0,0 +1,168 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { NotFoundError } from "../lib/errors.ts";
+import { subscribeWallEvents } from "../lib/events.ts";
+import { generateWallSnapshot, getGraffiti, snapshotKeyFor } from "../lib/graffiti.ts";
+import type { GraffitiItem, GraffitiType } from "../lib/graffiti.ts";
+import { LAYERS } from "../lib/layers.ts";
+import type { Layer } from "../lib/layers.ts";
+import { inlineSnapshotImage } from "../lib/snapshot-variants.ts";
+import { DEFAULT_WALL_ID } from "../lib/walls.ts";
+
+const ITEMS_URI = "wall://items";
+const SNAPSHOT_URI = "wall://snapshot/latest";
+const STATS_URI = "wall://stats";
+const SNAPSHOT_RESOURCE_WIDTH = 1024;
+
+type WallStats = {
+  wallId: string;
+  itemCount: number;
+  byType: Record<GraffitiType, number>;
+  byLayer: Record<Layer, number>;
+  authors: number;
+  firstCreatedAt: string | null;
+  lastUpdatedAt: string | null;
+  snapshotKey: string;
+};
+
+function itemUri(id: string): string {
+  return `${ITEMS_URI}/${encodeURIComponent(id)}`;
+}
+
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(value, null, 2) }]
+  };
+}
+
+function describeStats(wallId: string, items: GraffitiItem[]): WallStats {
+  const byLayer = Object.fromEntries(LAYERS.map((layer) => [layer, 0])) as Record<Layer, number>;
+  const byType: Record<GraffitiType, number> = { text: 0, image: 0, path: 0 };
+  let firstCreatedAt: string | null = null;
+  let lastUpdatedAt: string | null = null;
+
+  for (const item of items) {
+    byLayer[item.layer] += 1;
+    byType[item.type] += 1;
+    if (firstCreatedAt === null || item.createdAt < firstCreatedAt) {
+      firstCreatedAt = item.createdAt;
+    }
+    if (lastUpdatedAt === null || item.updatedAt > lastUpdatedAt) {
+      lastUpdatedAt = item.updatedAt;
+    }
+  }
+
+  return {
+    wallId,
+    itemCount: items.length,
+    byType,
+    byLayer,
+    authors: new Set(items.map((item) => item.author)).size,
+    firstCreatedAt,
+    lastUpdatedAt,
+    snapshotKey: snapshotKeyFor(items)
+  };
+}
+
+/**
+ * Exposes the default wall as MCP resources. Sessions that subscribe to a
+ * resource get notifications/resources/updated whenever a wall change touches it.
+ */
+export function registerWallResources(mcpServer: McpServer): void {
+  mcpServer.registerResource(
+    "wall-items",
+    ITEMS_URI,
+    {
+      title: "Wall items",
+      description: "Every approved graffiti item on the default wall, in stacking order.",
+      mimeType: "application/json"
+    },
+    async (uri) => jsonContents(uri.href, await getGraffiti(DEFAULT_WALL_ID))
+  );
+
+  mcpServer.registerResource(
+    "wall-item",
+    new ResourceTemplate(`${ITEMS_URI}/{id}`, {
+      list: async () => ({
+        resources: (await getGraffiti(DEFAULT_WALL_ID)).map((item) => ({
+          uri: itemUri(item.id),
+          name: item.type === "text" ? `text "${item.text.slice(0, 40)}"` : `${item.type} ${item.id}`,
+          mimeType: "application/json"
+        }))
+      })
+    }),
+    {
+      title: "Wall item",
+      description: "One graffiti item on the default wall, by id.",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const id = decodeURIComponent(String(variables.id));
+      const item = (await getGraffiti(DEFAULT_WALL_ID)).find((candidate) => candidate.id === id);
+      if (!item) {
+        throw new NotFoundError(`Graffiti ${id} not found on wall "${DEFAULT_WALL_ID}".`);
+      }
+
+      return jsonContents(uri.href, item);
+    }
+  );
+
+  mcpServer.registerResource(
+    "wall-snapshot",
+    SNAPSHOT_URI,
+    {
+      title: "Latest wall snapshot",
+      description: `The default wall as it looks now, at most ${SNAPSHOT_RESOURCE_WIDTH}px wide.`,
+      mimeType: "image/webp"
+    },
+    async (uri) => {
+      const snapshot = await generateWallSnapshot(DEFAULT_WALL_ID);
+      const image = await inlineSnapshotImage(snapshot.filePath, snapshot.format, SNAPSHOT_RESOURCE_WIDTH);
+      return { contents: [{ uri: uri.href, mimeType: image.mimeType, blob: image.data }] };
+    }
+  );
+
+  mcpServer.registerResource(
+    "wall-stats",
+    STATS_URI,
+    {
+      title: "Wall stats",
+      description: "Item counts by type and layer, author count and latest change for the default wall.",
+      mimeType: "application/json"
+    },
+    async (uri) => jsonContents(uri.href, describeStats(DEFAULT_WALL_ID, await getGraffiti(DEFAULT_WALL_ID)))
+  );
+
+  const subscriptions = new Set<string>();
+
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = subscribeWallEvents((event) => {
+    if (event.wallId !== DEFAULT_WALL_ID) {
+      return;
+    }
+
+    if (event.type !== "update") {
+      mcpServer.sendResourceListChanged();
+    }
+
+    const changedId = event.type === "remove" ? event.id : event.item.id;
+    for (const uri of [ITEMS_URI, SNAPSHOT_URI, STATS_URI, itemUri(changedId)]) {
+      if (subscriptions.has(uri)) {
+        void mcpServer.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+  });
+
+  mcpServer.server.onclose = unsubscribe;
+}
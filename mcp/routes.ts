@@ -4,166 +4,916 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import { addGraffiti, generateWallSnapshot, saveImageBlob } from "../lib/graffiti.ts";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  approveGraffiti,
+  bringToFront,
+  eraseGraffiti,
+  eraseGroup,
+  eraseRegion,
+  findFreeSpot,
+  findOverlaps,
+  buildOccupancyMap,
+  generateWallSnapshot,
+  getGraffiti,
+  getPendingGraffiti,
+  listGraffiti,
+  moveGroup,
+  rejectGraffiti,
+  saveImageBlob,
+  sendToBack
+} from "../lib/graffiti.ts";
+import type { GraffitiItem, Placement } from "../lib/graffiti.ts";
+import { ApiKeyFileError, requireAdmin, resolveClientIdentity } from "../lib/api-keys.ts";
+import type { ClientIdentity } from "../lib/api-keys.ts";
+import { NotFoundError } from "../lib/errors.ts";
+import { BUNDLED_FONTS, DEFAULT_FONT, FONT_URL_PREFIX } from "../lib/fonts.ts";
+import {
+  MAX_BATCH_ITEMS,
+  graffitiPatchSchema,
+  percent,
+  positionSchema,
+  rectSchema,
+  sprayImageInput,
+  sprayBatchSchema,
+  sprayImageSchema,
+  sprayPathInput,
+  sprayPathSchema,
+  sprayShapeInput,
+  sprayShapeSchema,
+  sprayTextSchema,
+  wallId
+} from "../lib/graffiti-schemas.ts";
+import type { NormalizedFields } from "../lib/graffiti-schemas.ts";
+import { collectUploadGarbage } from "../lib/maintenance.ts";
+import { inlineSnapshotImage } from "../lib/snapshot-variants.ts";
+import { generateTimelapse } from "../lib/timelapse.ts";
+import { exportWall, importWall } from "../lib/wall-archive.ts";
+import { validateWall } from "../lib/wall-validation.ts";
+import { createSessionQuota, describeQuota } from "../lib/quotas.ts";
+import type { ModerationResult } from "../lib/moderation.ts";
+import {
+  editGraffiti,
+  pathDataFromArgs,
+  shapeDataFromArgs,
+  sprayBatch,
+  sprayImage,
+  sprayPath,
+  sprayText
+} from "../lib/spraying.ts";
+import type { SprayOutcome } from "../lib/spraying.ts";
+import { WALL_ID_PATTERN, createWall, listWalls } from "../lib/walls.ts";
+import { registerWallPrompts } from "./prompts.ts";
+import { registerWallResources } from "./resources.ts";
+import {
+  batchOutputSchema,
+  exportOutputSchema,
+  fontsOutputSchema,
+  freeSpotOutputSchema,
+  gcOutputSchema,
+  groupOutputSchema,
+  importOutputSchema,
+  itemOutputSchema,
+  itemsOutputSchema,
+  lenientInput,
+  listGraffitiOutputSchema,
+  moderationError,
+  quotaOutputSchema,
+  runCheckedTool,
+  runTool,
+  snapshotOutputSchema,
+  sprayOutputSchema,
+  timelapseOutputSchema,
+  toolResult,
+  updateOutputSchema,
+  validateOutputSchema,
+  wallOutputSchema,
+  wallsOutputSchema
+} from "./tool-results.ts";
 
-const percent = z.number().min(0).max(100);
-const rotation = z.number().min(-360).max(360).default(0);
-const opacity = z.number().min(0).max(1).default(1);
+// Wall history is rebuilt from when items were created; edits and erasures are not recorded.
+const HISTORY_WARNING =
+  "past wall states show the items created by then in their current form: later edits are not undone and erased items are missing";
 
-const positionSchema = z.object({
-  x: percent,
-  y: percent
-});
+const timelapseWallSchema = {
+  wall_id: wallId,
+  every_items: z.number().int().min(1).optional(),
+  every_minutes: z.number().min(0.1).optional(),
+  format: z.enum(["webp", "gif"]).default("webp"),
+  frame_delay_ms: z.number().int().min(20).max(10_000).default(400),
+  width: z.number().int().min(64).max(1536).default(768)
+};
+
+const createWallSchema = {
+  wall_id: z.string().regex(WALL_ID_PATTERN, "Use lowercase letters, digits and dashes (max 63 characters)"),
+  name: z.string().min(1).max(120),
+  background_blob: z.string().optional()
+};
+
+const snapshotWallSchema = {
+  wall_id: wallId,
+  at: z.string().datetime({ offset: true }).optional(),
+  crop: rectSchema.optional(),
+  max_width: z.number().int().min(16).max(4096).optional(),
+  max_height: z.number().int().min(16).max(4096).optional(),
+  format: z.enum(["png", "jpeg", "webp"]).default("png"),
+  quality: z.number().int().min(1).max(100).optional(),
+  grid: z.number().min(1).max(50).optional(),
+  inline: z.boolean().default(true),
+  inline_max_width: z.number().int().min(64).max(2048).default(768)
+};
+
+const listGraffitiSchema = {
+  wall_id: wallId,
+  type: z.enum(["text", "image", "path"]).optional(),
+  group_id: z.string().min(1).optional(),
+  region: rectSchema.optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  overlaps: z.boolean().default(false)
+};
 
-const dimensionsSchema = z.object({
+const findFreeSpotSchema = {
+  wall_id: wallId,
   width: percent,
-  height: percent
-});
-
-const sprayTextSchema = {
-  text: z.string().min(1),
-  font: z.string().default("Impact, sans-serif"),
-  color: z.string().default("#111111"),
-  position: positionSchema,
-  size: z.number().min(8).max(300).default(42),
-  rotation,
-  opacity
-};
-
-const sprayImageSchema = {
-  image_url: z.string().url().optional(),
-  image_blob: z.string().optional(),
-  position: positionSchema,
-  dimensions: dimensionsSchema,
-  rotation,
-  opacity
-};
-
-const sprayImageInput = z
-  .object(sprayImageSchema)
-  .refine((value) => Boolean(value.image_url || value.image_blob), {
-    message: "Provide image_url or image_blob"
+  height: percent,
+  near: positionSchema.optional(),
+  margin: z.number().min(0).max(10).default(1)
+};
+
+const updateGraffitiSchema = {
+  wall_id: wallId,
+  id: z.string().min(1),
+  patch: graffitiPatchSchema
+};
+
+const moderationSchema = {
+  wall_id: wallId,
+  id: z.string().min(1)
+};
+
+const myQuotaSchema = {
+  wall_id: wallId
+};
+
+const gcUploadsSchema = {
+  dry_run: z.boolean().default(false),
+  keep_snapshots: z.number().int().min(0).max(100).default(5)
+};
+
+const exportWallSchema = {
+  wall_id: wallId
+};
+
+const importWallSchema = {
+  archive_blob: z.string().min(1).describe("A .tar.gz wall archive from export_wall, base64 encoded"),
+  wall_id: z
+    .string()
+    .optional()
+    .describe("Wall to import into; defaults to the wall the archive was exported from. Created if missing."),
+  mode: z.enum(["merge", "replace"]).default("merge")
+};
+
+const validateWallSchema = {
+  wall_id: wallId
+};
+
+const listPendingSchema = {
+  wall_id: wallId
+};
+
+const restackSchema = {
+  wall_id: wallId,
+  id: z.string().min(1)
+};
+
+const eraseGraffitiSchema = {
+  wall_id: wallId,
+  id: z.string().min(1)
+};
+
+const groupSchema = {
+  wall_id: wallId,
+  group_id: z.string().min(1)
+};
+
+const moveGroupSchema = {
+  ...groupSchema,
+  by: z.object({
+    x: z.number().min(-100).max(100),
+    y: z.number().min(-100).max(100)
+  })
+};
+
+const eraseRegionSchema = {
+  wall_id: wallId,
+  rect: rectSchema
+};
+
+function normalizationWarnings(normalized: NormalizedFields, prefix = ""): string[] {
+  return (["position", "dimensions"] as const)
+    .filter((field) => normalized[field])
+    .map((field) => `${prefix}${field} was given as 0-1 fractions and scaled to 0-100 percentages`);
+}
+
+function reviewWarnings(moderation: ModerationResult): string[] {
+  return moderation.decision === "queued"
+    ? [`held for review until an admin approves it (${moderation.reasons.join("; ")})`]
+    : [];
+}
+
+function describePlacement(placement: Placement): string {
+  const where = `(${placement.position.x}, ${placement.position.y})`;
+  return placement.free
+    ? `moved to ${where} to avoid overlapping graffiti`
+    : `no free spot was big enough; moved to the least crowded spot ${where}`;
+}
+
+function sprayResult(toolName: string, result: SprayOutcome): CallToolResult {
+  if (result.outcome === "rejected") {
+    return moderationError(toolName, result.moderation);
+  }
+
+  const warnings = [
+    ...normalizationWarnings(result.normalized),
+    ...(result.placement?.moved ? [describePlacement(result.placement)] : []),
+    ...reviewWarnings(result.moderation)
+  ];
+  const outcome =
+    result.moderation.decision === "queued"
+      ? `${toolName} queued ${result.item.id} for review`
+      : `${toolName} accepted ${result.item.id}`;
+  const { x, y } = result.item.position;
+
+  return toolResult(`${outcome} at (${x}, ${y})${warnings.length > 0 ? ` (${warnings.join("; ")})` : ""}`, {
+    item: result.item,
+    status: result.moderation.decision === "queued" ? "queued" : "accepted",
+    moderation: result.moderation,
+    normalized: result.normalized,
+    placement: result.placement ?? null,
+    warnings
   });
+}
 
-function normalizePercentPair(
-  first: number,
-  second: number
-): { first: number; second: number; normalized: boolean } {
-  const fractionRange = (value: number) => value >= 0 && value < 1;
-  const shouldNormalize = fractionRange(first) && fractionRange(second);
+function describeItem(item: GraffitiItem): string {
+  const where = `at (${item.position.x}, ${item.position.y})`;
+  switch (item.type) {
+    case "text":
+      return `${item.id} text "${item.text}" ${where}`;
+    case "image":
+      return `${item.id} image ${item.imageUrl} ${where}`;
+    case "path":
+      return `${item.id} path ${item.dimensions.width}x${item.dimensions.height} ${where}`;
+  }
+}
+
+/**
+ * Rewrites a timestamp argument the way createdAt is stored (UTC, milliseconds),
+ * since stores compare time ranges as strings.
+ */
+function toStoredTimestamp(value: string | undefined): string | undefined {
+  return value === undefined ? undefined : new Date(value).toISOString();
+}
 
-  if (!shouldNormalize) {
-    return { first, second, normalized: false };
+function describeItems(items: GraffitiItem[]): string {
+  if (items.length === 1) {
+    return describeItem(items[0]);
   }
 
-  return {
-    first: first * 100,
-    second: second * 100,
-    normalized: true
-  };
+  return `group ${items[0].groupId} of ${items.length} items: ${items.map((item) => item.id).join(", ")}`;
+}
+
+/** Origin that turns /uploads paths into absolute URLs; PUBLIC_BASE_URL wins over the request's host. */
+function publicOrigin(req: express.Request): string {
+  const configured = process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "");
+  return configured || `${req.protocol}://${req.get("host")}`;
 }
 
-function createMcpServer(): McpServer {
+function createMcpServer(identity: ClientIdentity, origin: string): McpServer {
   const mcpServer = new McpServer({
     name: "leftys-graffiti-wall",
     version: "0.1.0"
   }, {
+    capabilities: { resources: { subscribe: true } },
     instructions:
-      "Lefty's bathroom graffiti MCP server. Use spray_text to add styled text tags, spray_image to place image stickers, and snapshot_wall to render the current wall as a PNG image URL. Coordinates and dimensions MUST be percentages from 0 to 100, where 45 means 45 percent (not 0.45)."
+      "Lefty's bathroom graffiti MCP server. Use spray_text to add styled text tags, spray_image to place image stickers, spray_path and spray_shape to draw strokes and shapes, spray_batch to spray a multi-item composition at once (moved and erased together with move_group and erase_group), list_graffiti/update_graffiti/erase_graffiti/erase_region to inspect and change existing items, find_free_spot (or avoid_overlap on the spray tools) to avoid spraying over other tags, and snapshot_wall to render the current wall (or a cropped, gridded region of it) as an image URL. Every tool takes an optional wall_id (default \"default\"); use list_walls to see walls and create_wall to add one. Tools that change or remove existing graffiti, moderate, or create walls need an admin API key. Coordinates and dimensions MUST be percentages from 0 to 100, where 45 means 45 percent (not 0.45). The default wall is also readable as resources (wall://items, wall://items/{id}, wall://snapshot/latest, wall://stats) that can be subscribed to for change notifications. The describe_wall, tag_the_wall and reply_to_tag prompts lay out the wall's current items, free regions, fonts and colours before you spray."
   });
 
-  mcpServer.tool(
+  const sessionQuota = createSessionQuota();
+  registerWallResources(mcpServer);
+  registerWallPrompts(mcpServer);
+
+  mcpServer.registerTool(
     "spray_text",
-    "Add a text tag to the graffiti wall with font/color/size, position, rotation, and opacity. position.x and position.y must be 0-100 percentages (example: 45 means 45%).",
-    sprayTextSchema,
-    async (args) => {
-    const normalizedPosition = normalizePercentPair(args.position.x, args.position.y);
-
-    const item = await addGraffiti({
-      type: "text",
-      text: args.text,
-      font: args.font,
-      color: args.color,
-      position: {
-        x: normalizedPosition.first,
-        y: normalizedPosition.second
-      },
-      size: args.size,
-      rotation: args.rotation,
-      opacity: args.opacity
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: normalizedPosition.normalized
-            ? `spray_text created ${item.id} (normalized 0-1 position fractions to 0-100 percentages)`
-            : `spray_text created ${item.id}`
-        }
-      ]
-    };
-    }
+    {
+      description: "Add a text tag to the graffiti wall with font (one of the bundled fonts from list_fonts)/color/size, position, rotation, and opacity. Optional styling: stroke {color, width} outline, shadow {color, offset_x, offset_y, blur}, letter_spacing in pixels, align (left/center/right: which end of each line sits on position.x), gradient {colors, angle} instead of color, and effect spray (rough edges and overspray) or drip. layer (background/default/top) and an optional integer z_index control stacking; by default new items go on top of their layer. position.x and position.y must be 0-100 percentages (example: 45 means 45%). Set avoid_overlap to have the tag nudged to the nearest spot free of other graffiti; the response says where it ended up.",
+      inputSchema: lenientInput(sprayTextSchema),
+      outputSchema: sprayOutputSchema
+    },
+    (input) =>
+      runCheckedTool(sprayTextSchema, input, async (args) =>
+        sprayResult("spray_text", await sprayText(identity, sessionQuota, args))
+      )
   );
 
-  mcpServer.tool(
+  mcpServer.registerTool(
     "spray_image",
-    "Add an image sticker to the graffiti wall using image_url or image_blob plus position, size, rotation, and opacity. position/dimensions values must be 0-100 percentages (example: 20 means 20%).",
-    sprayImageSchema,
-    async (args) => {
-    sprayImageInput.parse(args);
-    const normalizedPosition = normalizePercentPair(args.position.x, args.position.y);
-    const normalizedDimensions = normalizePercentPair(args.dimensions.width, args.dimensions.height);
-
-    const imageUrl = args.image_url ?? (await saveImageBlob(args.image_blob!));
-
-    const item = await addGraffiti({
-      type: "image",
-      imageUrl,
-      position: {
-        x: normalizedPosition.first,
-        y: normalizedPosition.second
-      },
-      dimensions: {
-        width: normalizedDimensions.first,
-        height: normalizedDimensions.second
-      },
-      rotation: args.rotation,
-      opacity: args.opacity
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text:
-            normalizedPosition.normalized || normalizedDimensions.normalized
-              ? `spray_image created ${item.id} (normalized 0-1 fractions to 0-100 percentages)`
-              : `spray_image created ${item.id}`
+    {
+      description: "Add an image sticker to the graffiti wall using image_url or image_blob plus position, size, rotation, and opacity. layer (background/default/top) and an optional integer z_index control stacking. position/dimensions values must be 0-100 percentages (example: 20 means 20%). Set avoid_overlap to have the sticker nudged to the nearest spot free of other graffiti; the response says where it ended up.",
+      inputSchema: lenientInput(sprayImageSchema),
+      outputSchema: sprayOutputSchema
+    },
+    (input) =>
+      runCheckedTool(sprayImageSchema, input, async (args) => {
+        sprayImageInput.parse(args);
+        return sprayResult("spray_image", await sprayImage(identity, sessionQuota, args));
+      })
+  );
+
+  mcpServer.registerTool(
+    "spray_path",
+    {
+      description: "Draw a freehand stroke or outline on the wall, given either SVG path data d (M/L/H/V/C/S/Q/T/A/Z commands) or a list of points, which smooth turns into a flowing curve and closed joins back to the start. All coordinates are 0-100 wall percentages (x across, y down), so the drawing scales with the wall. color is the stroke color, stroke_width a percentage of the wall's width, fill a color or none, line_cap butt/round/square and line_join miter/round/bevel. rotation turns the path around the centre of its bounding box; layer and z_index control stacking. Set avoid_overlap to have the drawing moved to the nearest spot free of other graffiti.",
+      inputSchema: lenientInput(sprayPathSchema),
+      outputSchema: sprayOutputSchema
+    },
+    (input) =>
+      runCheckedTool(sprayPathSchema, input, async (args) => {
+        sprayPathInput.parse(args);
+        return sprayResult("spray_path", await sprayPath(identity, sessionQuota, pathDataFromArgs(args), args));
+      })
+  );
+
+  mcpServer.registerTool(
+    "spray_shape",
+    {
+      description: "Draw a basic shape on the wall: rect or ellipse filling rect {x, y, width, height}, or a line or arrow from one point to another (head_size sets the arrowhead length). Coordinates are 0-100 wall percentages. Takes the same color, stroke_width, fill, line_cap, line_join, rotation, opacity, layer, z_index and avoid_overlap options as spray_path.",
+      inputSchema: lenientInput(sprayShapeSchema),
+      outputSchema: sprayOutputSchema
+    },
+    (input) =>
+      runCheckedTool(sprayShapeSchema, input, async (args) => {
+        sprayShapeInput.parse(args);
+        return sprayResult("spray_shape", await sprayPath(identity, sessionQuota, shapeDataFromArgs(args), args));
+      })
+  );
+
+  mcpServer.registerTool(
+    "spray_batch",
+    {
+      description: `Spray a composition of up to ${MAX_BATCH_ITEMS} items in one go, e.g. a tag with an outline and a sticker. items is an ordered list; each has a type (text, image, path or shape) and the same fields as spray_text, spray_image, spray_path or spray_shape, minus wall_id and avoid_overlap (use find_free_spot to place the whole piece). Every item is checked before anything is stored, then all of them appear at once, stacked in list order, sharing one group id. If any item is rejected nothing is sprayed; if any needs review the whole batch waits for it. Returns the group id and the new item ids; move_group and erase_group act on the whole group later.`,
+      inputSchema: lenientInput(sprayBatchSchema),
+      outputSchema: batchOutputSchema
+    },
+    (input) =>
+      runCheckedTool(sprayBatchSchema, input, async (args) => {
+        const result = await sprayBatch(identity, sessionQuota, args.wall_id, args.items);
+        if (result.outcome === "rejected") {
+          return moderationError(`spray_batch item ${result.index + 1}`, result.moderation, result.index);
         }
-      ]
-    };
-    }
+
+        const warnings = [
+          ...result.normalized.flatMap((normalized, index) => normalizationWarnings(normalized, `item ${index + 1}: `)),
+          ...reviewWarnings(result.moderation)
+        ];
+        const summary = `group ${result.groupId} with ${result.items.length} item(s)`;
+        const outcome =
+          result.moderation.decision === "queued"
+            ? `spray_batch queued ${summary} for review`
+            : `spray_batch accepted ${summary}`;
+
+        return toolResult(warnings.length > 0 ? `${outcome} (${warnings.join("; ")})` : outcome, {
+          groupId: result.groupId,
+          status: result.moderation.decision === "queued" ? "queued" : "accepted",
+          moderation: result.moderation,
+          items: result.items.map((item, index) => ({ item, normalized: result.normalized[index] })),
+          warnings
+        });
+      })
   );
 
-  mcpServer.tool(
+  mcpServer.registerTool(
     "snapshot_wall",
-    "Render the current bathroom wall into a PNG snapshot and return a public image URL. Reuses a cached image keyed by the latest graffiti createdAt timestamp when available.",
-    async () => {
-      const snapshot = await generateWallSnapshot();
-      const cacheNote = snapshot.fromCache ? "; cache hit" : `; cache key ${snapshot.snapshotKey}`;
-      const skippedNote =
-        snapshot.skippedImages > 0 ? `; skipped ${snapshot.skippedImages} missing image(s)` : "";
-
-      return {
-        content: [
+    {
+      description: "Render the bathroom wall into a snapshot and return it inline as image content (downscaled to inline_max_width pixels; set inline false to skip it), along with an absolute image URL and JSON with its size, item count and cache key. Pass an ISO timestamp as at to render only the items created up to that moment; they are drawn in their current form and erased items are missing, which the warnings repeat. To save tokens, crop to a rect in wall percentages, cap the size with max_width/max_height, and pick format png, jpeg or webp (with quality 1-100). grid draws labelled lines every N wall percent so positions can be read off the image. Reuses a cached image keyed by the wall's latest change and these options when available.",
+      inputSchema: lenientInput(snapshotWallSchema),
+      outputSchema: snapshotOutputSchema
+    },
+    (input) =>
+      runCheckedTool(snapshotWallSchema, input, async (args) => {
+        const snapshot = await generateWallSnapshot(args.wall_id, {
+          at: toStoredTimestamp(args.at),
+          crop: args.crop,
+          maxWidth: args.max_width,
+          maxHeight: args.max_height,
+          format: args.format,
+          quality: args.quality,
+          grid: args.grid
+        });
+        const cacheNote = snapshot.fromCache ? "; cache hit" : `; cache key ${snapshot.snapshotKey}`;
+        const warnings = [
+          ...(args.at ? [HISTORY_WARNING] : []),
+          ...(snapshot.skippedImages > 0 ? [`skipped ${snapshot.skippedImages} image(s) missing from disk`] : [])
+        ];
+        const absoluteUrl = `${origin}${snapshot.imageUrl}`;
+        const summary = {
+          wallId: snapshot.wallId,
+          imageUrl: absoluteUrl,
+          format: snapshot.format,
+          width: snapshot.width,
+          height: snapshot.height,
+          itemCount: snapshot.itemCount,
+          skippedImages: snapshot.skippedImages,
+          fromCache: snapshot.fromCache,
+          snapshotKey: snapshot.snapshotKey,
+          warnings
+        };
+        const image: CallToolResult["content"] = [];
+
+        if (args.inline) {
+          const inline = await inlineSnapshotImage(snapshot.filePath, snapshot.format, args.inline_max_width);
+          image.push({ type: "image", data: inline.data, mimeType: inline.mimeType });
+        }
+
+        return toolResult(
+          `snapshot_wall created ${absoluteUrl} (${snapshot.format} ${snapshot.width}x${snapshot.height}; ${snapshot.itemCount} item(s)${cacheNote}${warnings.map((warning) => `; ${warning}`).join("")})`,
+          summary,
+          image
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "timelapse_wall",
+    {
+      description: "Render the wall's history as an animated WebP or GIF, starting from the bare wall and adding a frame every every_items new items or every every_minutes minutes. Without either, every item gets a frame, or on walls with more than 120 items, the step that fits them into 120 frames. Returns a public image URL.",
+      inputSchema: lenientInput(timelapseWallSchema),
+      outputSchema: timelapseOutputSchema
+    },
+    (input) =>
+      runCheckedTool(timelapseWallSchema, input, async (args) => {
+        const timelapse = await generateTimelapse(args.wall_id, {
+          everyItems: args.every_items,
+          everyMinutes: args.every_minutes,
+          format: args.format,
+          frameDelayMs: args.frame_delay_ms,
+          width: args.width
+        });
+        const cacheNote = timelapse.fromCache ? "; cache hit" : `; cache key ${timelapse.timelapseKey}`;
+        const imageUrl = `${origin}${timelapse.imageUrl}`;
+
+        return toolResult(
+          `timelapse_wall created ${imageUrl} (${timelapse.width}x${timelapse.height}; ${timelapse.frameCount} frame(s)${cacheNote}; ${HISTORY_WARNING})`,
+          { ...timelapse, imageUrl, warnings: [HISTORY_WARNING] }
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "list_graffiti",
+    {
+      description: "List graffiti on a wall as JSON. Optionally filter by type (text/image/path), group_id (the items of one spray_batch), a region rectangle {x, y, width, height} in 0-100 percentages that the item's position must fall inside, and a since/until ISO time range on createdAt. Set overlaps to also get the pairs of listed items whose estimated, rotated bounding boxes intersect, with the shared area in square percent.",
+      inputSchema: lenientInput(listGraffitiSchema),
+      outputSchema: listGraffitiOutputSchema
+    },
+    (input) =>
+      runCheckedTool(listGraffitiSchema, input, async (args) => {
+        const items = await listGraffiti(
           {
-            type: "text",
-            text: `snapshot_wall created ${snapshot.imageUrl} (${snapshot.width}x${snapshot.height}; ${snapshot.itemCount} item(s)${cacheNote}${skippedNote})`
-          }
-        ]
-      };
-    }
+            type: args.type,
+            groupId: args.group_id,
+            region: args.region,
+            since: toStoredTimestamp(args.since),
+            until: toStoredTimestamp(args.until)
+          },
+          args.wall_id
+        );
+
+        if (!args.overlaps) {
+          return toolResult(`list_graffiti found ${items.length} item(s)`, { items });
+        }
+
+        const overlaps = findOverlaps(items);
+        return toolResult(`list_graffiti found ${items.length} item(s) and ${overlaps.length} overlapping pair(s)`, {
+          items,
+          overlaps
+        });
+      })
+  );
+
+  mcpServer.registerTool(
+    "find_free_spot",
+    {
+      description: "Find where a width x height box (0-100 wall percentages) fits without covering existing graffiti, keeping margin percent clear around other items. Returns the spot nearest near (default: the middle of the wall); use its position as the centre of the new item. When nothing fits, returns the least crowded spot and says how much of it is covered.",
+      inputSchema: lenientInput(findFreeSpotSchema),
+      outputSchema: freeSpotOutputSchema
+    },
+    (input) =>
+      runCheckedTool(findFreeSpotSchema, input, async (args) => {
+        const map = buildOccupancyMap(await getGraffiti(args.wall_id), args.margin);
+        const spot = findFreeSpot(map, { width: args.width, height: args.height }, args.near);
+        const where = `(${spot.position.x}, ${spot.position.y})`;
+
+        return toolResult(
+          spot.free
+            ? `find_free_spot found a free ${args.width}x${args.height} spot centred at ${where}`
+            : `find_free_spot found no free ${args.width}x${args.height} spot; the least crowded one is centred at ${where} (${Math.round(spot.covered * 100)}% covered)`,
+          spot
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "update_graffiti",
+    {
+      description: "Move, restyle or rewrite an existing graffiti item. patch may set position, rotation and opacity on any item, text/font/color/size and the spray_text styling fields on text (null removes a style), dimensions on images and paths (a path is scaled to fit), color/stroke_width/fill/line_cap/line_join on paths, and layer/z_index for stacking. Positions and dimensions are 0-100 percentages.",
+      inputSchema: lenientInput(updateGraffitiSchema),
+      outputSchema: updateOutputSchema
+    },
+    (input) =>
+      runCheckedTool(updateGraffitiSchema, input, async (args) => {
+        requireAdmin(identity, "update_graffiti");
+
+        const result = await editGraffiti(args.wall_id, args.id, args.patch);
+        if (result.outcome === "rejected") {
+          return moderationError("update_graffiti", result.moderation);
+        }
+
+        const warnings = normalizationWarnings(result.normalized);
+        const outcome = `update_graffiti updated ${result.item.id}`;
+        return toolResult(warnings.length > 0 ? `${outcome} (${warnings.join("; ")})` : outcome, {
+          item: result.item,
+          normalized: result.normalized,
+          warnings
+        });
+      })
+  );
+
+  mcpServer.registerTool(
+    "bring_to_front",
+    {
+      description: "Move a graffiti item above every other item in its layer.",
+      inputSchema: lenientInput(restackSchema),
+      outputSchema: itemOutputSchema
+    },
+    (input) =>
+      runCheckedTool(restackSchema, input, async (args) => {
+        requireAdmin(identity, "bring_to_front");
+
+        const item = await bringToFront(args.id, args.wall_id);
+        if (!item) {
+          throw new NotFoundError(`No graffiti ${args.id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`bring_to_front moved ${item.id} to z ${item.zIndex} in layer ${item.layer}`, { item });
+      })
+  );
+
+  mcpServer.registerTool(
+    "send_to_back",
+    {
+      description: "Move a graffiti item below every other item in its layer.",
+      inputSchema: lenientInput(restackSchema),
+      outputSchema: itemOutputSchema
+    },
+    (input) =>
+      runCheckedTool(restackSchema, input, async (args) => {
+        requireAdmin(identity, "send_to_back");
+
+        const item = await sendToBack(args.id, args.wall_id);
+        if (!item) {
+          throw new NotFoundError(`No graffiti ${args.id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`send_to_back moved ${item.id} to z ${item.zIndex} in layer ${item.layer}`, { item });
+      })
+  );
+
+  mcpServer.registerTool(
+    "erase_graffiti",
+    {
+      description: "Erase a single graffiti item by id.",
+      inputSchema: lenientInput(eraseGraffitiSchema),
+      outputSchema: itemOutputSchema
+    },
+    (input) =>
+      runCheckedTool(eraseGraffitiSchema, input, async (args) => {
+        requireAdmin(identity, "erase_graffiti");
+
+        const item = await eraseGraffiti(args.id, args.wall_id);
+        if (!item) {
+          throw new NotFoundError(`No graffiti ${args.id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`erase_graffiti erased ${describeItem(item)}`, { item });
+      })
+  );
+
+  mcpServer.registerTool(
+    "move_group",
+    {
+      description: "Move every item sprayed by one spray_batch by the same offset by {x, y}, in wall percentages (negative moves left or up), keeping the composition intact. Fails without moving anything if an item would end up off the wall.",
+      inputSchema: lenientInput(moveGroupSchema),
+      outputSchema: groupOutputSchema
+    },
+    (input) =>
+      runCheckedTool(moveGroupSchema, input, async (args) => {
+        requireAdmin(identity, "move_group");
+
+        const moved = await moveGroup(args.group_id, args.by, args.wall_id);
+        return toolResult(
+          `move_group moved ${moved.length} item(s) of group ${args.group_id} by (${args.by.x}, ${args.by.y})`,
+          { groupId: args.group_id, items: moved }
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "erase_group",
+    {
+      description: "Erase every item sprayed by one spray_batch.",
+      inputSchema: lenientInput(groupSchema),
+      outputSchema: groupOutputSchema
+    },
+    (input) =>
+      runCheckedTool(groupSchema, input, async (args) => {
+        requireAdmin(identity, "erase_group");
+
+        const erased = await eraseGroup(args.group_id, args.wall_id);
+        if (erased.length === 0) {
+          throw new NotFoundError(`No graffiti group ${args.group_id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`erase_group erased ${erased.length} item(s) of group ${args.group_id}`, {
+          groupId: args.group_id,
+          items: erased
+        });
+      })
+  );
+
+  mcpServer.registerTool(
+    "erase_region",
+    {
+      description: "Erase every graffiti item whose position falls inside rect {x, y, width, height}, given in 0-100 percentages.",
+      inputSchema: lenientInput(eraseRegionSchema),
+      outputSchema: itemsOutputSchema
+    },
+    (input) =>
+      runCheckedTool(eraseRegionSchema, input, async (args) => {
+        requireAdmin(identity, "erase_region");
+
+        const erased = await eraseRegion(args.rect, args.wall_id);
+        const lines = erased.map(describeItem);
+
+        return toolResult(
+          `erase_region erased ${erased.length} item(s)${lines.length > 0 ? `\n${lines.join("\n")}` : ""}`,
+          { items: erased }
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "my_quota",
+    {
+      description: "Show your remaining spray rate limits (per client and per session), your paint budget in square percent of the wall (10000 = the whole wall), and how full the wall is.",
+      inputSchema: lenientInput(myQuotaSchema),
+      outputSchema: quotaOutputSchema
+    },
+    (input) =>
+      runCheckedTool(myQuotaSchema, input, async (args) => {
+        const quota = await describeQuota(identity, sessionQuota, args.wall_id);
+
+        return toolResult(
+          [
+            `my_quota for ${quota.client}`,
+            `client sprays: ${quota.clientRequests.remaining}/${quota.clientRequests.capacity} (refills ${quota.clientRequests.perMinute}/min)`,
+            `session sprays: ${quota.sessionRequests.remaining}/${quota.sessionRequests.capacity} (refills ${quota.sessionRequests.perMinute}/min)`,
+            `paint: ${quota.paint.remaining}/${quota.paint.capacity} sq% (refills ${quota.paint.perHour}/hour)`,
+            `wall ${quota.wall.id}: ${quota.wall.items}/${quota.wall.maxItems} items`
+          ].join("\n"),
+          quota
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "list_pending",
+    {
+      description: "Admin: list graffiti waiting for moderation on a wall, as JSON. Pending items are hidden from the public wall until approved.",
+      inputSchema: lenientInput(listPendingSchema),
+      outputSchema: itemsOutputSchema
+    },
+    (input) =>
+      runCheckedTool(listPendingSchema, input, async (args) => {
+        requireAdmin(identity, "list_pending");
+
+        const items = await getPendingGraffiti(args.wall_id);
+        return toolResult(`list_pending found ${items.length} item(s)`, { items });
+      })
+  );
+
+  mcpServer.registerTool(
+    "approve_graffiti",
+    {
+      description: "Admin: approve a pending graffiti item so it appears on the wall. An item sprayed with spray_batch is approved together with the rest of its group, so a piece never goes up half-finished.",
+      inputSchema: lenientInput(moderationSchema),
+      outputSchema: itemsOutputSchema
+    },
+    (input) =>
+      runCheckedTool(moderationSchema, input, async (args) => {
+        requireAdmin(identity, "approve_graffiti");
+
+        const items = await approveGraffiti(args.id, args.wall_id);
+        if (items.length === 0) {
+          throw new NotFoundError(`No pending graffiti ${args.id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`approve_graffiti approved ${describeItems(items)}`, { items });
+      })
+  );
+
+  mcpServer.registerTool(
+    "reject_graffiti",
+    {
+      description: "Admin: reject a pending graffiti item, deleting it without it ever appearing on the wall. An item sprayed with spray_batch is rejected together with the rest of its group.",
+      inputSchema: lenientInput(moderationSchema),
+      outputSchema: itemsOutputSchema
+    },
+    (input) =>
+      runCheckedTool(moderationSchema, input, async (args) => {
+        requireAdmin(identity, "reject_graffiti");
+
+        const items = await rejectGraffiti(args.id, args.wall_id);
+        if (items.length === 0) {
+          throw new NotFoundError(`No pending graffiti ${args.id} on wall "${args.wall_id}".`);
+        }
+
+        return toolResult(`reject_graffiti rejected ${describeItems(items)}`, { items });
+      })
+  );
+
+  mcpServer.registerTool(
+    "list_fonts",
+    {
+      description: "List the fonts spray_text and update_graffiti accept. The wall page and snapshot_wall draw text with the same bundled font files.",
+      outputSchema: fontsOutputSchema
+    },
+    () =>
+      runTool(async () => {
+        const fonts = BUNDLED_FONTS.map((font) => ({
+          family: font.family,
+          weight: font.weight,
+          category: font.category,
+          default: font.family === DEFAULT_FONT,
+          url: `${origin}${FONT_URL_PREFIX}/${font.file}`,
+          license: `${origin}${FONT_URL_PREFIX}/${font.license}`
+        }));
+
+        return toolResult(`list_fonts found ${fonts.length} font(s)`, { fonts });
+      })
+  );
+
+  mcpServer.registerTool(
+    "list_walls",
+    {
+      description: "List every wall that can be sprayed on, with its wall_id, name and background image.",
+      outputSchema: wallsOutputSchema
+    },
+    () =>
+      runTool(async () => {
+        const walls = await listWalls();
+        const lines = walls.map((wall) => `${wall.id}: ${wall.name} (background ${wall.background})`);
+
+        return toolResult(`list_walls found ${walls.length} wall(s)\n${lines.join("\n")}`, { walls });
+      })
+  );
+
+  mcpServer.registerTool(
+    "create_wall",
+    {
+      description: "Create a new named wall. wall_id must use lowercase letters, digits and dashes. Optionally pass background_blob (base64 or data URL) as the wall background; otherwise the default Lefty's background is used.",
+      inputSchema: lenientInput(createWallSchema),
+      outputSchema: wallOutputSchema
+    },
+    (input) =>
+      runCheckedTool(createWallSchema, input, async (args) => {
+        requireAdmin(identity, "create_wall");
+
+        const background = args.background_blob ? await saveImageBlob(args.background_blob) : undefined;
+        const wall = await createWall({
+          id: args.wall_id,
+          name: args.name,
+          background
+        });
+
+        return toolResult(`create_wall created ${wall.id} (background ${wall.background})`, { wall });
+      })
+  );
+
+  mcpServer.registerTool(
+    "gc_uploads",
+    {
+      description: "Admin: delete snapshot and timelapse files for superseded wall states (keeping the newest keep_snapshots per wall) and uploaded images no item or wall uses, then report disk usage as JSON. dry_run lists what would be deleted without deleting it.",
+      inputSchema: lenientInput(gcUploadsSchema),
+      outputSchema: gcOutputSchema
+    },
+    (input) =>
+      runCheckedTool(gcUploadsSchema, input, async (args) => {
+        requireAdmin(identity, "gc_uploads");
+
+        const report = await collectUploadGarbage({ dryRun: args.dry_run, keepSnapshots: args.keep_snapshots });
+        const verb = report.dryRun ? "would remove" : "removed";
+        const freed = report.snapshots.bytesFreed + report.uploads.bytesFreed;
+
+        return toolResult(
+          `gc_uploads ${verb} ${report.snapshots.deleted.length} snapshot(s) and ${report.uploads.deleted.length} upload(s), freeing ${freed} bytes`,
+          report
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "export_wall",
+    {
+      description: "Admin: pack a wall into a .tar.gz archive holding its items (pending ones included), every uploaded image they use, its background and an archive schema version. The archive comes back as an embedded resource blob that import_wall accepts.",
+      inputSchema: lenientInput(exportWallSchema),
+      outputSchema: exportOutputSchema
+    },
+    (input) =>
+      runCheckedTool(exportWallSchema, input, async (args) => {
+        requireAdmin(identity, "export_wall");
+
+        const exported = await exportWall(args.wall_id);
+        const uri = `wall://archives/${exported.fileName}`;
+        const missing =
+          exported.missingUploads.length > 0
+            ? `; ${exported.missingUploads.length} upload(s) were missing on disk: ${exported.missingUploads.join(", ")}`
+            : "";
+
+        return toolResult(
+          `export_wall packed ${exported.itemCount} item(s) and ${exported.uploadCount} upload(s) from wall "${args.wall_id}" into ${exported.fileName} (${exported.archive.length} bytes)${missing}`,
+          {
+            wallId: args.wall_id,
+            uri,
+            fileName: exported.fileName,
+            bytes: exported.archive.length,
+            itemCount: exported.itemCount,
+            uploadCount: exported.uploadCount,
+            missingUploads: exported.missingUploads
+          },
+          [
+            {
+              type: "resource",
+              resource: { uri, mimeType: "application/gzip", blob: exported.archive.toString("base64") }
+            }
+          ]
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "import_wall",
+    {
+      description: "Admin: restore a wall archive made by export_wall (archive_blob, base64). Items get new ids (batches keep moving together) and their images are restored. mode merge adds them to the wall's current items; replace swaps the wall's items for them. A wall that does not exist yet is created with the archive's name and background. Archives from a newer schema version are refused.",
+      inputSchema: lenientInput(importWallSchema),
+      outputSchema: importOutputSchema
+    },
+    (input) =>
+      runCheckedTool(importWallSchema, input, async (args) => {
+        requireAdmin(identity, "import_wall");
+
+        const report = await importWall(Buffer.from(args.archive_blob, "base64"), {
+          wallId: args.wall_id,
+          mode: args.mode
+        });
+        const replaced = report.mode === "replace" ? `, replacing ${report.replaced}` : "";
+
+        return toolResult(
+          `import_wall ${report.createdWall ? "created" : "restored into"} wall "${report.wallId}": ${report.imported} item(s) imported${replaced}, ${report.uploadsRestored} upload(s) restored`,
+          report
+        );
+      })
+  );
+
+  mcpServer.registerTool(
+    "validate_wall",
+    {
+      description: "Admin: check a wall's stored data and report problems as JSON: records quarantined on load because they failed validation (kept off the wall until fixed by hand), ids stored twice, items off the wall, images missing from disk and fonts that are not bundled.",
+      inputSchema: lenientInput(validateWallSchema),
+      outputSchema: validateOutputSchema
+    },
+    (input) =>
+      runCheckedTool(validateWallSchema, input, async (args) => {
+        requireAdmin(identity, "validate_wall");
+
+        const report = await validateWall(args.wall_id);
+        const errors = report.problems.filter((problem) => problem.severity === "error").length;
+
+        return toolResult(
+          `validate_wall found ${errors} error(s) and ${report.problems.length - errors} warning(s) on wall "${report.wallId}" (${report.itemCount} item(s), ${report.quarantined.length} quarantined, schema version ${report.schemaVersion})`,
+          report
+        );
+      })
   );
 
   return mcpServer;
@@ -173,8 +923,49 @@ export function createMcpRouter(): express.Router {
   const router = express.Router();
   const transports = new Map<string, StreamableHTTPServerTransport>();
   const servers = new Map<string, McpServer>();
+  const identities = new Map<string, ClientIdentity>();
+
+  // Only MCP traffic is parsed here; everything else falls through to Next.js,
+  // whose route handlers read their own request bodies.
+  router.use("/mcp", express.json({ limit: "15mb" }));
+
+  // Every /mcp request must carry a valid key, and requests for an existing
+  // session must come from the client that opened it. Keys are resolved again
+  // on each request, and a session whose key has changed scope since it opened
+  // is closed, since its tools were built for the old scope.
+  router.use("/mcp", async (req, res, next) => {
+    try {
+      const identity = await resolveClientIdentity(req.header("authorization"));
+      if (!identity) {
+        res.status(401).set("WWW-Authenticate", "Bearer").json({ error: "Missing or invalid API key" });
+        return;
+      }
+
+      const sessionId = req.header("mcp-session-id");
+      const sessionIdentity = sessionId ? identities.get(sessionId) : undefined;
+      if (sessionIdentity && sessionIdentity.client !== identity.client) {
+        res.status(403).json({ error: "MCP session belongs to another client" });
+        return;
+      }
+
+      if (sessionId && sessionIdentity && sessionIdentity.scope !== identity.scope) {
+        await transports.get(sessionId)?.close();
+        res.status(401).json({ error: "API key scope changed; start a new MCP session" });
+        return;
+      }
 
-  router.use(express.json({ limit: "15mb" }));
+      res.locals.identity = identity;
+      next();
+    } catch (error) {
+      if (error instanceof ApiKeyFileError) {
+        res.status(503).json({ error: error.message });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: message });
+    }
+  });
 
   router.post("/mcp", async (req, res) => {
     try {
@@ -187,12 +978,14 @@ export function createMcpRouter(): express.Router {
           return;
         }
 
-        const server = createMcpServer();
+        const identity = res.locals.identity as ClientIdentity;
+        const server = createMcpServer(identity, publicOrigin(req));
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
           onsessioninitialized: (id) => {
             transports.set(id, transport!);
             servers.set(id, server);
+            identities.set(id, identity);
           }
         });
 
@@ -201,6 +994,7 @@ export function createMcpRouter(): express.Router {
           if (!id) return;
 
           transports.delete(id);
+          identities.delete(id);
           const closedServer = servers.get(id);
           servers.delete(id);
           void closedServer?.close().catch(() => {});
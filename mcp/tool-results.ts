@@ -0,0 +1,301 @@
+import { ZodError, z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ForbiddenError, ImageSourceError, NotFoundError, ValidationError } from "../lib/errors.ts";
+import { storedItemSchema } from "../lib/item-schema.ts";
+import type { ModerationResult } from "../lib/moderation.ts";
+import { QuotaExceededError } from "../lib/quotas.ts";
+
+// What the tools hand back. A successful call carries structuredContent that
+// matches the tool's outputSchema, repeated as JSON text for clients that only
+// read content. A failed call is an isError result whose text starts with a
+// machine-readable code; it carries no structuredContent, since clients check
+// that against the outputSchema.
+
+export type ToolErrorCode =
+  | "validation"
+  | "quota"
+  | "moderation"
+  | "not_found"
+  | "upstream_image"
+  | "forbidden"
+  | "internal";
+
+export type ToolError = {
+  code: ToolErrorCode;
+  message: string;
+  /** quota: seconds until the request would be allowed, when known. */
+  retryAfterSeconds?: number;
+  /** moderation: why the content was refused. */
+  reasons?: string[];
+  /** moderation on spray_batch: 0-based index of the refused item. */
+  index?: number;
+};
+
+const position = z.object({ x: z.number(), y: z.number() });
+const rect = z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() });
+const moderation = z.object({
+  decision: z.enum(["accepted", "queued", "rejected"]),
+  reasons: z.array(z.string())
+});
+const normalized = z
+  .object({ position: z.boolean(), dimensions: z.boolean() })
+  .describe("Which fields arrived as 0-1 fractions and were scaled up to 0-100 percentages");
+const warnings = z.array(z.string()).describe("Anything the caller asked for that was adjusted or held back");
+const wall = z.object({ id: z.string(), name: z.string(), background: z.string(), createdAt: z.string() });
+
+export const sprayOutputSchema = {
+  item: storedItemSchema.describe("The item as stored, with its final coordinates"),
+  status: z.enum(["accepted", "queued"]),
+  moderation,
+  normalized,
+  placement: z
+    .object({ position, moved: z.boolean(), free: z.boolean() })
+    .nullable()
+    .describe("Where avoid_overlap put the item; null when it was not set"),
+  warnings
+};
+
+export const batchOutputSchema = {
+  groupId: z.string(),
+  status: z.enum(["accepted", "queued"]),
+  moderation,
+  items: z.array(z.object({ item: storedItemSchema, normalized })),
+  warnings
+};
+
+export const updateOutputSchema = {
+  item: storedItemSchema,
+  normalized,
+  warnings
+};
+
+export const itemOutputSchema = {
+  item: storedItemSchema
+};
+
+export const itemsOutputSchema = {
+  items: z.array(storedItemSchema)
+};
+
+export const listGraffitiOutputSchema = {
+  items: z.array(storedItemSchema),
+  overlaps: z
+    .array(z.object({ ids: z.tuple([z.string(), z.string()]), area: z.number() }))
+    .optional()
+    .describe("Only present when overlaps was requested")
+};
+
+export const groupOutputSchema = {
+  groupId: z.string(),
+  items: z.array(storedItemSchema)
+};
+
+export const freeSpotOutputSchema = {
+  position,
+  rect,
+  free: z.boolean(),
+  covered: z.number().describe("Share of the spot already covered, 0-1")
+};
+
+const bucket = { remaining: z.number(), capacity: z.number() };
+
+export const quotaOutputSchema = {
+  client: z.string(),
+  clientRequests: z.object({ ...bucket, perMinute: z.number() }),
+  sessionRequests: z.object({ ...bucket, perMinute: z.number() }),
+  paint: z.object({ ...bucket, perHour: z.number() }),
+  wall: z.object({ id: z.string(), items: z.number(), maxItems: z.number() })
+};
+
+export const fontsOutputSchema = {
+  fonts: z.array(
+    z.object({
+      family: z.string(),
+      weight: z.number(),
+      category: z.string(),
+      default: z.boolean(),
+      url: z.string(),
+      license: z.string()
+    })
+  )
+};
+
+export const wallsOutputSchema = {
+  walls: z.array(wall)
+};
+
+export const wallOutputSchema = {
+  wall
+};
+
+export const snapshotOutputSchema = {
+  wallId: z.string(),
+  imageUrl: z.string(),
+  format: z.enum(["png", "jpeg", "webp"]),
+  width: z.number(),
+  height: z.number(),
+  itemCount: z.number(),
+  skippedImages: z.number(),
+  fromCache: z.boolean(),
+  snapshotKey: z.string(),
+  warnings
+};
+
+export const timelapseOutputSchema = {
+  wallId: z.string(),
+  imageUrl: z.string(),
+  format: z.enum(["webp", "gif"]),
+  frameCount: z.number(),
+  width: z.number(),
+  height: z.number(),
+  fromCache: z.boolean(),
+  timelapseKey: z.string(),
+  warnings
+};
+
+const deletions = z.object({ deleted: z.array(z.string()), bytesFreed: z.number(), kept: z.number() });
+
+export const gcOutputSchema = {
+  dryRun: z.boolean(),
+  snapshots: deletions,
+  uploads: deletions,
+  usage: z.object({
+    uploadBytes: z.number(),
+    uploadFiles: z.number(),
+    snapshotBytes: z.number(),
+    snapshotFiles: z.number(),
+    snapshotBytesByWall: z.record(z.number())
+  })
+};
+
+export const exportOutputSchema = {
+  wallId: z.string(),
+  uri: z.string().describe("URI of the embedded archive resource in content"),
+  fileName: z.string(),
+  bytes: z.number(),
+  itemCount: z.number(),
+  uploadCount: z.number(),
+  missingUploads: z.array(z.string())
+};
+
+export const importOutputSchema = {
+  wallId: z.string(),
+  mode: z.enum(["merge", "replace"]),
+  createdWall: z.boolean(),
+  imported: z.number(),
+  replaced: z.number(),
+  uploadsRestored: z.number(),
+  missingUploads: z.array(z.string())
+};
+
+export const validateOutputSchema = {
+  wallId: z.string(),
+  schemaVersion: z.number(),
+  itemCount: z.number(),
+  pendingCount: z.number(),
+  quarantined: z.array(z.object({ record: z.unknown(), issues: z.array(z.string()), quarantinedAt: z.string() })),
+  problems: z.array(
+    z.object({ severity: z.enum(["error", "warning"]), itemId: z.string().nullable(), message: z.string() })
+  )
+};
+
+/** A successful result: a one-line summary, then the structured content as JSON, then any extra content. */
+export function toolResult(
+  summary: string,
+  data: Record<string, unknown>,
+  extra: CallToolResult["content"] = []
+): CallToolResult {
+  return {
+    content: [{ type: "text", text: summary }, { type: "text", text: JSON.stringify(data, null, 2) }, ...extra],
+    structuredContent: data
+  };
+}
+
+export function toolError(error: ToolError): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      { type: "text", text: `${error.code}: ${error.message}` },
+      { type: "text", text: JSON.stringify({ error }) }
+    ]
+  };
+}
+
+export function moderationError(toolName: string, result: ModerationResult, index?: number): CallToolResult {
+  return toolError({
+    code: "moderation",
+    message: `${toolName} rejected: ${result.reasons.join("; ")}`,
+    reasons: result.reasons,
+    ...(index !== undefined && { index })
+  });
+}
+
+export function classifyError(error: unknown): ToolError {
+  if (error instanceof ZodError) {
+    const issues = error.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`);
+    return { code: "validation", message: issues.join("; ") };
+  }
+
+  if (error instanceof QuotaExceededError) {
+    return {
+      code: "quota",
+      message: error.message,
+      ...(error.retryAfterSeconds !== null && { retryAfterSeconds: error.retryAfterSeconds })
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ValidationError) {
+    return { code: "validation", message };
+  }
+
+  if (error instanceof NotFoundError) {
+    return { code: "not_found", message };
+  }
+
+  if (error instanceof ImageSourceError) {
+    return { code: "upstream_image", message };
+  }
+
+  if (error instanceof ForbiddenError) {
+    return { code: "forbidden", message };
+  }
+
+  return { code: "internal", message };
+}
+
+/** Runs a tool handler, turning whatever it throws into a coded isError result. */
+export async function runTool(handler: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await handler();
+  } catch (error) {
+    return toolError(classifyError(error));
+  }
+}
+
+type LenientShape<Shape extends z.ZodRawShape> = { [Key in keyof Shape]: z.ZodCatch<Shape[Key]> };
+
+/**
+ * The inputSchema to register for a tool whose arguments runCheckedTool checks.
+ * tools/list still shows the strict shape, including which fields are
+ * required, but the SDK lets any value through, so a bad argument comes back
+ * as a validation error rather than the SDK's uncoded one.
+ */
+export function lenientInput<Shape extends z.ZodRawShape>(shape: Shape): LenientShape<Shape> {
+  const entries = Object.entries(shape).map(([key, field]) => {
+    const lenient = field.catch(({ input }: { input: unknown }) => input);
+    // A catch accepts undefined, which would advertise every field as optional.
+    lenient.isOptional = () => field.isOptional();
+    return [key, lenient];
+  });
+  return Object.fromEntries(entries) as LenientShape<Shape>;
+}
+
+/** Checks a tool's arguments against shape, then runs it like runTool. */
+export async function runCheckedTool<Shape extends z.ZodRawShape>(
+  shape: Shape,
+  input: unknown,
+  handler: (args: z.output<z.ZodObject<Shape>>) => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  return runTool(async () => handler(await z.object(shape).parseAsync(input)));
+}
@@ -0,0 +1,100 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Saves and restores wall archives through the export_wall and import_wall
+// tools, so it needs an admin MCP_API_KEY and a running server.
+
+const serverUrl = process.env.MCP_SERVER_URL ?? "http://localhost:3334/mcp";
+const apiKey = process.env.MCP_API_KEY;
+
+const USAGE = [
+  "Usage: npm run mcp:archive -- export <wall_id> [file.tar.gz]",
+  "       npm run mcp:archive -- import <file.tar.gz> [--wall <wall_id>] [--replace]"
+].join("\n");
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  const client = new Client({
+    name: "Lefty's-graffiti-archiver",
+    version: "0.1.0"
+  });
+
+  const transport = new StreamableHTTPClientTransport(new URL(serverUrl), {
+    requestInit: apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : undefined
+  });
+  await client.connect(transport);
+
+  try {
+    const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+    const summary = result.content.find((part) => part.type === "text");
+    if (result.isError) {
+      fail(summary?.text ?? `${name} failed`);
+    }
+
+    if (summary) {
+      console.log(summary.text);
+    }
+    return result;
+  } finally {
+    await client.close();
+  }
+}
+
+async function exportCommand(args: string[]): Promise<void> {
+  const [wallId, outFile] = args;
+  if (!wallId) {
+    fail(USAGE);
+  }
+
+  const result = await callTool("export_wall", { wall_id: wallId });
+  const archive = result.content.find((part) => part.type === "resource");
+  if (!archive || !("blob" in archive.resource)) {
+    fail("export_wall did not return an archive");
+  }
+
+  const fileName = outFile ?? archive.resource.uri.split("/").pop() ?? `${wallId}.tar.gz`;
+  await writeFile(fileName, Buffer.from(archive.resource.blob, "base64"));
+  console.log(`Saved ${fileName}`);
+}
+
+async function importCommand(args: string[]): Promise<void> {
+  const [file] = args;
+  if (!file || file.startsWith("--")) {
+    fail(USAGE);
+  }
+
+  const bytes = await readFile(file);
+  await callTool("import_wall", {
+    archive_blob: bytes.toString("base64"),
+    wall_id: optionValue(args, "--wall"),
+    mode: args.includes("--replace") ? "replace" : "merge"
+  });
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "export") {
+    await exportCommand(args);
+  } else if (command === "import") {
+    await importCommand(args);
+  } else {
+    fail(USAGE);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+import express from "express";
+import { getGraffiti } from "../lib/graffiti.ts";
+import {
+  currentEventSeq,
+  formatEventId,
+  getWallEventsSince,
+  subscribeWallEvents
+} from "../lib/events.ts";
+import type { WallEvent, WallStreamMessage } from "../lib/events.ts";
+import { getWall } from "../lib/walls.ts";
+import type { Wall } from "../lib/walls.ts";
+
+const KEEP_ALIVE_MS = 25_000;
+
+export function createWallEventsRouter(): express.Router {
+  const router = express.Router();
+
+  router.get("/api/walls/:id/events", async (req, res) => {
+    // Express 4 ignores a rejected handler promise, so a failed lookup must
+    // answer here or the request would hang.
+    let wall: Wall | null;
+    try {
+      wall = await getWall(req.params.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: message });
+      return;
+    }
+
+    if (!wall) {
+      res.status(404).json({ error: `Unknown wall "${req.params.id}"` });
+      return;
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    let lastSentSeq = currentEventSeq();
+    let ready = false;
+    const pending: WallEvent[] = [];
+
+    const write = (message: WallStreamMessage) => {
+      res.write(`id: ${formatEventId(message.seq)}\ndata: ${JSON.stringify(message)}\n\n`);
+    };
+
+    const send = (event: WallEvent) => {
+      if (event.seq <= lastSentSeq) {
+        return;
+      }
+
+      lastSentSeq = event.seq;
+      write(
+        event.type === "remove"
+          ? { type: "remove", seq: event.seq, id: event.id }
+          : { type: event.type, seq: event.seq, item: event.item }
+      );
+    };
+
+    // Subscribe before reading so nothing published while we catch up is lost.
+    const unsubscribe = subscribeWallEvents((event) => {
+      if (event.wallId !== wall.id) {
+        return;
+      }
+
+      if (ready) {
+        send(event);
+      } else {
+        pending.push(event);
+      }
+    });
+
+    const keepAlive = setInterval(() => {
+      res.write(": keep-alive\n\n");
+    }, KEEP_ALIVE_MS);
+
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+
+    try {
+      const lastEventId = req.header("last-event-id");
+      const missed = lastEventId ? getWallEventsSince(wall.id, lastEventId) : null;
+
+      if (missed) {
+        lastSentSeq = Number(lastEventId!.split("-")[1]);
+        missed.forEach(send);
+      } else {
+        // Fresh connection, or too far behind to replay: send the full item list.
+        const items = await getGraffiti(wall.id);
+        write({ type: "reset", seq: lastSentSeq, items });
+      }
+
+      ready = true;
+      pending.forEach(send);
+    } catch (error) {
+      console.error(`Wall event stream for "${wall.id}" failed`, error);
+      res.end();
+    }
+  });
+
+  return router;
+}
@@ -1,9 +1,13 @@
 import express from "express";
 import next from "next";
+import { CLIENT_ADDRESS_HEADER, resolveClientAddress } from "./lib/client-address.ts";
+import { scheduleUploadGarbageCollection } from "./lib/maintenance.ts";
 import { createMcpRouter } from "./mcp/routes.ts";
+import { createWallEventsRouter } from "./realtime/routes.ts";
 
 const port = Number(process.env.PORT ?? 3000);
 const dev = process.env.NODE_ENV !== "production";
+const uploadGcIntervalMinutes = Number(process.env.UPLOAD_GC_INTERVAL_MINUTES ?? 60);
 
 async function main(): Promise<void> {
   const nextApp = next({ dev, hostname: "0.0.0.0", port });
@@ -14,11 +18,17 @@ async function main(): Promise<void> {
   const app = express();
   app.set("trust proxy", true);
   app.use(createMcpRouter());
+  app.use(createWallEventsRouter());
 
   app.all("*", (req, res) => {
+    req.headers[CLIENT_ADDRESS_HEADER] = resolveClientAddress(req);
     void handle(req, res);
   });
 
+  if (uploadGcIntervalMinutes > 0) {
+    scheduleUploadGarbageCollection(uploadGcIntervalMinutes);
+  }
+
   app.listen(port, () => {
     console.log(`Web + MCP server listening on http://localhost:${port}`);
   });